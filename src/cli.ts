@@ -8,4 +8,4 @@ import { createCLI } from "./cli/index";
 
 // Create and run the CLI
 const program = createCLI();
-program.parse(process.argv);
+program.parseAsync(process.argv);
@@ -3,22 +3,103 @@
  */
 
 import { spawn } from "node:child_process";
-import { existsSync, writeFileSync } from "node:fs";
+import {
+	closeSync,
+	existsSync,
+	openSync,
+	readFileSync,
+	watchFile,
+	writeFileSync,
+} from "node:fs";
+import { userInfo } from "node:os";
 import chalk from "chalk";
 import { Command } from "commander";
 import inquirer from "inquirer";
 
+import { diffEnvValues } from "../core/diff";
+import {
+	expandEnvValues,
+	formatEnvValue,
+	getEnvValues,
+	parseEnvDocument,
+	setEnvValue,
+	stringifyEnvDocument,
+	unsetEnvValue,
+} from "../core/dotenv";
 import {
+	ENCRYPTION_MODES,
+	type EncryptionMode,
+	MASTER_KEY_ENV_VAR,
 	MASTER_KEY_FILENAME,
+	type MasterKeyOptions,
+	PASSPHRASE_ENV_VAR,
+	decryptEnvContent,
 	decryptEnvFile,
 	encryptEnvFile,
 	generateMasterKey,
+	isPassphraseProtected,
+	loadMasterKey,
+	migrateEnvFile,
+	readEncryptedEnvFile,
+	readEncryptedEnvValues,
+	resolveContentKey,
 	saveMasterKey,
+	setEnvFileRecipients,
+	writeEncryptedEnvFile,
 } from "../core/encryption";
+import {
+	getEnvironmentFromPath,
+	getEnvironmentPaths,
+} from "../core/environments";
+import {
+	EXAMPLE_FILENAME,
+	generateExampleFromEnv,
+	generateExampleFromSchema,
+} from "../core/example";
+import {
+	DEFAULT_SECRET_NAME,
+	EXPORT_FORMATS,
+	exportEnvValues,
+	filterEnvValues,
+	isExportFormat,
+} from "../core/export";
+import { GIT_ATTRIBUTES, configureGitDrivers, readGitFile } from "../core/git";
 import { createGitignoreIfNotExists } from "../core/gitignore";
+import {
+	IMPORT_FORMATS,
+	IMPORT_STRATEGIES,
+	detectImportFormat,
+	getImportConflicts,
+	importEnvValues,
+	isImportFormat,
+	isImportStrategy,
+	parseImportContent,
+	secureDeleteFile,
+} from "../core/import";
+import { mergeEnvContent } from "../core/merge";
+import {
+	DEFAULT_IDENTITY_FILE,
+	type Recipient,
+	generateIdentity,
+	getFingerprint,
+	loadIdentity,
+	loadRecipients,
+	saveIdentity,
+	saveRecipients,
+	splitRecipientHeader,
+} from "../core/recipients";
+import { rotateMasterKey } from "../core/rotation";
+import {
+	type EnvField,
+	checkEnvValues,
+	getSchemaFields,
+	loadEnvSchema,
+} from "../core/schema";
+import { TYPES_FILENAME, generateEnvDeclaration } from "../core/typegen";
 
 // Import framework-specific instructions
 import { internal as NextJS } from "../frameworks/nextjs";
+import { internal as Vite } from "../frameworks/vite";
 
 // Supported frameworks
 const FRAMEWORKS = {
@@ -26,17 +107,135 @@ const FRAMEWORKS = {
 		name: "Next.js",
 		setupInstructions: NextJS.setupInstructions,
 	},
+	vite: {
+		name: "Vite",
+		setupInstructions: Vite.setupInstructions,
+	},
 	// Add more frameworks here in the future
 };
 
 type Framework = keyof typeof FRAMEWORKS;
 
+/**
+ * Commands that never read the master key, so they don't ask for its passphrase
+ */
+const COMMANDS_WITHOUT_MASTER_KEY = new Set([
+	"init",
+	"keygen",
+	"git-setup",
+	"recipients list",
+]);
+
+/**
+ * Get the full name of a subcommand, e.g. "recipients list"
+ * @param command The subcommand
+ */
+function getCommandPath(command: Command): string {
+	const names: string[] = [];
+	for (let current: Command | null = command; current?.parent; ) {
+		names.unshift(current.name());
+		current = current.parent;
+	}
+	return names.join(" ");
+}
+
+/**
+ * The passphrase of the master key entered at the prompt, if any
+ */
+let enteredPassphrase: string | undefined;
+
+/**
+ * Ask for a passphrase without echoing it
+ * @param message The prompt message
+ * @param confirm Whether to ask a second time and check both match
+ */
+async function promptPassphrase(
+	message: string,
+	confirm = false,
+): Promise<string> {
+	const { passphrase } = await inquirer.prompt([
+		{ type: "password", name: "passphrase", message, mask: "*" },
+	]);
+	if (confirm) {
+		const { confirmation } = await inquirer.prompt([
+			{
+				type: "password",
+				name: "confirmation",
+				message: "Confirm the passphrase:",
+				mask: "*",
+			},
+		]);
+		if (confirmation !== passphrase) {
+			throw new Error("The passphrases do not match");
+		}
+	}
+	return passphrase;
+}
+
+/**
+ * Build the master key options for a command, reading the key from stdin if requested
+ * @param options Command options
+ * @param keyFilePath The key file to fall back to
+ */
+function getMasterKeyOptions(
+	options: { keyStdin?: boolean; identity?: string },
+	keyFilePath: string,
+): MasterKeyOptions {
+	const identityFilePath = options.identity;
+	const passphrase = enteredPassphrase;
+	if (!options.keyStdin) {
+		return { keyFilePath, identityFilePath, passphrase };
+	}
+
+	const key = readFileSync(0, "utf8").trim();
+	if (!key) {
+		throw new Error("--key-stdin was set but no key was provided on stdin");
+	}
+	return { key, keyFilePath, identityFilePath, passphrase };
+}
+
 /**
  * Initialize a new super-env project
  * @param options Command options
  */
-export async function initCommand(options: { framework?: Framework } = {}) {
-	console.log(chalk.green("🚀 Initializing super-env in your project"));
+export async function initCommand(
+	options: { framework?: Framework; env?: string; passphrase?: boolean } = {},
+) {
+	let paths: ReturnType<typeof getEnvironmentPaths>;
+	let passphrase: string | undefined;
+	try {
+		paths = getEnvironmentPaths(options.env);
+
+		// Protect the master key with a passphrase if requested
+		if (options.passphrase) {
+			passphrase =
+				process.env[PASSPHRASE_ENV_VAR] ||
+				(await promptPassphrase(
+					`Passphrase to protect ${paths.keyFilePath}:`,
+					true,
+				));
+			if (!passphrase) {
+				throw new Error("The passphrase cannot be empty");
+			}
+		}
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+	const { envFilePath, encryptedEnvFilePath, keyFilePath } = paths;
+	const envFlag = options.env ? ` --env ${options.env}` : "";
+
+	console.log(
+		chalk.green(
+			options.env
+				? `🚀 Initializing super-env for the ${options.env} environment`
+				: "🚀 Initializing super-env in your project",
+		),
+	);
 
 	// Ask for framework if not provided
 	let framework = options.framework || "nextjs"; // Default to nextjs if not specified
@@ -57,34 +256,50 @@ export async function initCommand(options: { framework?: Framework } = {}) {
 
 	// Generate and save master key
 	const masterKey = generateMasterKey();
-	saveMasterKey(masterKey);
+	saveMasterKey(masterKey, keyFilePath, { passphrase });
 
-	// Add MASTER_KEY.key to .gitignore
-	createGitignoreIfNotExists([MASTER_KEY_FILENAME]);
+	// Add the master key and the plaintext .env file to .gitignore
+	createGitignoreIfNotExists(
+		options.env ? [keyFilePath, envFilePath] : [MASTER_KEY_FILENAME],
+	);
 
 	// Display framework-specific instructions
 	console.log("\n");
 	console.log(chalk.cyan("✅ Master key generated and added to .gitignore"));
+	if (passphrase) {
+		console.log(
+			chalk.cyan(
+				`🔐 ${keyFilePath} is protected by your passphrase (set $${PASSPHRASE_ENV_VAR} to skip the prompt)`,
+			),
+		);
+	}
 	console.log("\n");
 	console.log(chalk.bold("📝 Framework-specific setup instructions:"));
 	console.log(FRAMEWORKS[framework].setupInstructions);
 
 	// Create a sample .env file if it doesn't exist
-	if (!existsSync(".env")) {
+	if (!existsSync(envFilePath)) {
 		writeFileSync(
-			".env",
+			envFilePath,
 			`# Environment variables for ${FRAMEWORKS[framework].name}\n\n# Add your environment variables here\n`,
 		);
-		console.log(chalk.green("\n✅ Created a sample .env file"));
+		console.log(chalk.green(`\n✅ Created a sample ${envFilePath} file`));
 	}
 
 	console.log(chalk.green("\n🎉 Initialization complete!"));
 	console.log(chalk.yellow("\n💡 Next steps:"));
-	console.log("1. Add your environment variables to .env");
+	console.log(`1. Add your environment variables to ${envFilePath}`);
+	console.log(
+		`2. Run ${chalk.bold(`npx super-env encrypt${envFlag}`)} to encrypt your ${envFilePath} file`,
+	);
 	console.log(
-		`2. Run ${chalk.bold("npx super-env encrypt")} to encrypt your .env file`,
+		`3. Commit the encrypted ${encryptedEnvFilePath} file to your repository`,
 	);
-	console.log("3. Commit the encrypted .env.enc file to your repository");
+	if (options.env) {
+		console.log(
+			`4. Share ${keyFilePath} only with the people who need access to ${options.env}`,
+		);
+	}
 }
 
 /**
@@ -92,15 +307,43 @@ export async function initCommand(options: { framework?: Framework } = {}) {
  * @param options Command options
  */
 export function encryptCommand(
-	options: { input?: string; output?: string; key?: string } = {},
+	options: {
+		input?: string;
+		output?: string;
+		key?: string;
+		mode?: EncryptionMode;
+		env?: string;
+		keyStdin?: boolean;
+		identity?: string;
+	} = {},
 ) {
-	const inputPath = options.input || ".env";
-	const outputPath = options.output || ".env.enc";
-	const keyPath = options.key || MASTER_KEY_FILENAME;
-
 	try {
+		const paths = getEnvironmentPaths(options.env);
+		const inputPath = options.input || paths.envFilePath;
+		const outputPath = options.output || paths.encryptedEnvFilePath;
+		const keyPath = options.key || paths.keyFilePath;
+
+		if (options.mode && !ENCRYPTION_MODES.includes(options.mode)) {
+			throw new Error(
+				`Unknown encryption mode "${options.mode}" (expected one of: ${ENCRYPTION_MODES.join(", ")})`,
+			);
+		}
+
 		console.log(chalk.blue(`🔒 Encrypting ${inputPath} to ${outputPath}`));
-		encryptEnvFile(inputPath, outputPath, keyPath);
+		// Encrypt for the environment's recipients if it has any
+		const recipients = loadRecipients(paths.recipientsFilePath);
+		encryptEnvFile(
+			inputPath,
+			outputPath,
+			getMasterKeyOptions(options, keyPath),
+			{
+				mode: options.mode,
+				recipients:
+					recipients.length > 0
+						? recipients.map(({ publicKey }) => publicKey)
+						: undefined,
+			},
+		);
 		console.log(
 			chalk.green(`\n✅ Successfully encrypted ${inputPath} to ${outputPath}`),
 		);
@@ -124,15 +367,27 @@ export function encryptCommand(
  * @param options Command options
  */
 export function decryptCommand(
-	options: { input?: string; output?: string; key?: string } = {},
+	options: {
+		input?: string;
+		output?: string;
+		key?: string;
+		env?: string;
+		keyStdin?: boolean;
+		identity?: string;
+	} = {},
 ) {
-	const inputPath = options.input || ".env.enc";
-	const outputPath = options.output || ".env";
-	const keyPath = options.key || MASTER_KEY_FILENAME;
-
 	try {
+		const paths = getEnvironmentPaths(options.env);
+		const inputPath = options.input || paths.encryptedEnvFilePath;
+		const outputPath = options.output || paths.envFilePath;
+		const keyPath = options.key || paths.keyFilePath;
+
 		console.log(chalk.blue(`🔓 Decrypting ${inputPath} to ${outputPath}`));
-		decryptEnvFile(inputPath, outputPath, keyPath);
+		decryptEnvFile(
+			inputPath,
+			outputPath,
+			getMasterKeyOptions(options, keyPath),
+		);
 		console.log(
 			chalk.green(`\n✅ Successfully decrypted ${inputPath} to ${outputPath}`),
 		);
@@ -146,32 +401,62 @@ export function decryptCommand(
 	}
 }
 
+/**
+ * Open the terminal for reading, for an editor started when stdin held the key
+ * @throws {Error} If there is no terminal
+ */
+function openTerminal(): number {
+	try {
+		return openSync("/dev/tty", "r");
+	} catch {
+		throw new Error(
+			"--key-stdin needs a terminal for the editor, and none is available",
+		);
+	}
+}
+
 /**
  * Edit an encrypted .env file
  * @param options Command options
  */
 export function editCommand(
-	options: { file?: string; key?: string; editor?: string } = {},
+	options: {
+		file?: string;
+		key?: string;
+		editor?: string;
+		env?: string;
+		keyStdin?: boolean;
+		identity?: string;
+	} = {},
 ) {
-	const encryptedPath = options.file || ".env.enc";
-	const keyPath = options.key || MASTER_KEY_FILENAME;
 	const tempPath = ".env.tmp";
 
 	// Get the preferred editor
 	const editor = options.editor || process.env.EDITOR || "vim";
 
 	try {
+		const paths = getEnvironmentPaths(options.env);
+		const encryptedPath = options.file || paths.encryptedEnvFilePath;
+		const keyOptions = getMasterKeyOptions(
+			options,
+			options.key || paths.keyFilePath,
+		);
+		const editorInput = options.keyStdin ? openTerminal() : 0;
+
 		// Decrypt to a temporary file
 		console.log(chalk.blue(`🔓 Decrypting ${encryptedPath} for editing`));
-		decryptEnvFile(encryptedPath, tempPath, keyPath);
+		decryptEnvFile(encryptedPath, tempPath, keyOptions);
 
 		// Open the editor
 		console.log(chalk.blue(`📝 Opening ${tempPath} in ${editor}`));
 
 		const child = spawn(editor, [tempPath], {
-			stdio: "inherit",
+			stdio: [editorInput, "inherit", "inherit"],
 			shell: true,
 		});
+		if (editorInput !== 0) {
+			closeSync(editorInput);
+		}
 
 		// Re-encrypt after the editor is closed
 		child.on("exit", (code) => {
@@ -187,21 +472,240 @@ export function editCommand(
 			console.log(
 				chalk.blue(`🔒 Re-encrypting edited file to ${encryptedPath}`),
 			);
-			encryptEnvFile(tempPath, encryptedPath, keyPath);
-
-			// Remove the temporary file
 			try {
-				require("node:fs").unlinkSync(tempPath);
-			} catch (err) {
+				encryptEnvFile(tempPath, encryptedPath, keyOptions);
 				console.log(
-					chalk.yellow(`⚠️ Could not remove temporary file ${tempPath}`),
+					chalk.green(
+						`\n✅ Successfully updated and encrypted ${encryptedPath}`,
+					),
+				);
+			} catch (error) {
+				console.error(
+					chalk.red(
+						`❌ Error: ${error instanceof Error ? error.message : error}`,
+					),
 				);
+				process.exitCode = 1;
+			} finally {
+				// Remove the temporary file, even if the changes could not be saved
+				try {
+					require("node:fs").unlinkSync(tempPath);
+				} catch (err) {
+					console.log(
+						chalk.yellow(`⚠️ Could not remove temporary file ${tempPath}`),
+					);
+				}
 			}
+		});
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
 
-			console.log(
-				chalk.green(`\n✅ Successfully updated and encrypted ${encryptedPath}`),
+/**
+ * Options shared by the commands reading or changing a single variable
+ */
+interface VariableCommandOptions {
+	file?: string;
+	key?: string;
+	env?: string;
+	keyStdin?: boolean;
+	identity?: string;
+}
+
+/**
+ * Decrypt the variables of an encrypted .env file in memory
+ * @param options Command options
+ * @param create Whether a missing file is read as empty, for commands that create it
+ * @throws {Error} If the file is missing and `create` is not set
+ */
+function readVariables(options: VariableCommandOptions, create = false) {
+	const paths = getEnvironmentPaths(options.env);
+	const encryptedPath = options.file || paths.encryptedEnvFilePath;
+	const exists = existsSync(encryptedPath);
+	if (!exists && !create) {
+		throw new Error(`Encrypted file ${encryptedPath} not found`);
+	}
+	const keyOptions = getMasterKeyOptions(
+		options,
+		options.key || paths.keyFilePath,
+	);
+	const content = exists ? readEncryptedEnvFile(encryptedPath, keyOptions) : "";
+	return {
+		encryptedPath,
+		keyOptions,
+		document: parseEnvDocument(content),
+	};
+}
+
+/**
+ * Print the value of a variable from an encrypted .env file
+ * @param name The variable name
+ * @param options Command options
+ */
+export function getCommand(name: string, options: VariableCommandOptions = {}) {
+	try {
+		const { encryptedPath, document } = readVariables(options);
+		const values = getEnvValues(document);
+		if (!(name in values)) {
+			throw new Error(`${name} is not set in ${encryptedPath}`);
+		}
+		process.stdout.write(`${values[name]}\n`);
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Set a variable in an encrypted .env file, reading the value from stdin
+ * when only the name is given
+ * @param assignment KEY=VALUE, or KEY to read the value from stdin
+ * @param options Command options
+ */
+export function setCommand(
+	assignment: string,
+	options: VariableCommandOptions = {},
+) {
+	try {
+		const separator = assignment.indexOf("=");
+		let name = assignment;
+		let value: string;
+		if (separator === -1) {
+			if (options.keyStdin) {
+				throw new Error(
+					"Cannot read both the value and the master key from stdin: use KEY=VALUE with --key-stdin",
+				);
+			}
+			// Keep multiline values intact, apart from the final newline
+			value = readFileSync(0, "utf8").replace(/\r?\n$/, "");
+		} else {
+			name = assignment.slice(0, separator);
+			value = assignment.slice(separator + 1);
+		}
+
+		const { encryptedPath, keyOptions, document } = readVariables(
+			options,
+			true,
+		);
+		setEnvValue(document, name, value);
+		writeEncryptedEnvFile(
+			encryptedPath,
+			stringifyEnvDocument(document),
+			keyOptions,
+		);
+		console.log(chalk.green(`✅ Set ${name} in ${encryptedPath}`));
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Remove a variable from an encrypted .env file
+ * @param name The variable name
+ * @param options Command options
+ */
+export function unsetCommand(
+	name: string,
+	options: VariableCommandOptions = {},
+) {
+	try {
+		const { encryptedPath, keyOptions, document } = readVariables(options);
+		if (!unsetEnvValue(document, name)) {
+			throw new Error(`${name} is not set in ${encryptedPath}`);
+		}
+		writeEncryptedEnvFile(
+			encryptedPath,
+			stringifyEnvDocument(document),
+			keyOptions,
+		);
+		console.log(chalk.green(`✅ Removed ${name} from ${encryptedPath}`));
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * List the variables of an encrypted .env file, masking their values
+ * unless asked otherwise
+ * @param options Command options
+ */
+export function listCommand(
+	options: VariableCommandOptions & { showValues?: boolean } = {},
+) {
+	try {
+		const { document } = readVariables(options);
+		for (const [name, value] of Object.entries(getEnvValues(document))) {
+			console.log(`${name}=${options.showValues ? value : "********"}`);
+		}
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Print the variables of an encrypted .env file, decrypted in memory, in a
+ * format used by deploy tools
+ * @param options Command options
+ */
+export function exportCommand(
+	options: VariableCommandOptions & {
+		format?: string;
+		prefix?: string;
+		keys?: string;
+		name?: string;
+		namespace?: string;
+	} = {},
+) {
+	try {
+		const format = options.format || "json";
+		if (!isExportFormat(format)) {
+			throw new Error(
+				`Unknown format "${format}", use one of: ${EXPORT_FORMATS.join(", ")}`,
 			);
+		}
+
+		const { document } = readVariables(options);
+
+		// References are expanded with the file's own variables only, so the
+		// local environment never ends up in the export
+		const values = filterEnvValues(expandEnvValues(document, {}), {
+			prefix: options.prefix,
+			keys: options.keys
+				?.split(",")
+				.map((key) => key.trim())
+				.filter(Boolean),
 		});
+		process.stdout.write(
+			exportEnvValues(values, format, {
+				name: options.name,
+				namespace: options.namespace,
+			}),
+		);
 	} catch (error) {
 		if (error instanceof Error) {
 			console.error(chalk.red(`❌ Error: ${error.message}`));
@@ -213,54 +717,1381 @@ export function editCommand(
 }
 
 /**
- * Create and configure the CLI command parser
+ * Merge the variables of a plaintext .env, JSON or YAML file (or stdin) into
+ * an encrypted .env file, then offer to securely delete the plaintext source
+ * @param source The file to import, or "-" for stdin
+ * @param options Command options
  */
-export function createCLI(): Command {
-	const program = new Command();
+export async function importCommand(
+	source: string | undefined,
+	options: VariableCommandOptions & {
+		format?: string;
+		strategy?: string;
+		deleteSource?: boolean;
+	} = {},
+) {
+	try {
+		const fromStdin = !source || source === "-";
+		if (fromStdin && (options.keyStdin || process.stdin.isTTY)) {
+			throw new Error(
+				options.keyStdin
+					? "Cannot read both the variables and the master key from stdin: give a file to import"
+					: "No source given, e.g. super-env import .env or cat secrets.json | super-env import",
+			);
+		}
 
-	program
-		.name("super-env")
-		.description("Secure .env file management with type-safety")
-		.version("0.1.0");
+		const strategy = options.strategy || "keep";
+		if (!isImportStrategy(strategy)) {
+			throw new Error(
+				`Unknown strategy "${strategy}", use one of: ${IMPORT_STRATEGIES.join(", ")}`,
+			);
+		}
+		if (strategy === "prompt" && (fromStdin || !process.stdout.isTTY)) {
+			throw new Error(
+				"Cannot prompt while reading from stdin or without a terminal: use --strategy keep or overwrite",
+			);
+		}
 
-	program
-		.command("init")
-		.description("Initialize super-env in your project")
-		.option(
-			"-f, --framework <framework>",
-			"Specify the framework you are using",
-		)
-		.action((options) => initCommand(options));
+		const label = fromStdin ? "stdin" : source;
+		const content = readFileSync(fromStdin ? 0 : source, "utf8");
+		const format = options.format || detectImportFormat(content, label);
+		if (!isImportFormat(format)) {
+			throw new Error(
+				`Unknown format "${format}", use one of: ${IMPORT_FORMATS.join(", ")}`,
+			);
+		}
 
-	program
-		.command("encrypt")
-		.description("Encrypt a .env file")
-		.option("-i, --input <input>", "Input .env file path (default: .env)")
-		.option(
-			"-o, --output <output>",
-			"Output encrypted file path (default: .env.enc)",
-		)
-		.option("-k, --key <key>", "Master key file path (default: MASTER_KEY.key)")
-		.action((options) => encryptCommand(options));
+		const values = parseImportContent(content, format);
+		if (values.length === 0) {
+			throw new Error(`No variables found in ${label}`);
+		}
 
-	program
-		.command("decrypt")
-		.description("Decrypt a .env.enc file")
-		.option(
-			"-i, --input <input>",
-			"Input encrypted file path (default: .env.enc)",
-		)
-		.option("-o, --output <output>", "Output .env file path (default: .env)")
-		.option("-k, --key <key>", "Master key file path (default: MASTER_KEY.key)")
-		.action((options) => decryptCommand(options));
+		const { encryptedPath, keyOptions, document } = readVariables(
+			options,
+			true,
+		);
 
-	program
-		.command("edit")
-		.description("Edit an encrypted .env file")
-		.option("-f, --file <file>", "Encrypted file path (default: .env.enc)")
-		.option("-k, --key <key>", "Master key file path (default: MASTER_KEY.key)")
-		.option("-e, --editor <editor>", "Editor to use (default: $EDITOR or vim)")
-		.action((options) => editCommand(options));
+		// Decide what to do with every key that is set to another value
+		const conflicts = getImportConflicts(document, values);
+		const overwritten = new Set(strategy === "overwrite" ? conflicts : []);
+		if (strategy === "prompt") {
+			for (const key of conflicts) {
+				const { replace } = await inquirer.prompt([
+					{
+						type: "confirm",
+						name: "replace",
+						message: `${key} is already set to another value in ${encryptedPath}. Replace it?`,
+						default: false,
+					},
+				]);
+				if (replace) {
+					overwritten.add(key);
+				}
+			}
+		}
+
+		const result = importEnvValues(document, values, (key) =>
+			overwritten.has(key),
+		);
+		if (result.added.length > 0 || result.changed.length > 0) {
+			writeEncryptedEnvFile(
+				encryptedPath,
+				stringifyEnvDocument(document),
+				keyOptions,
+			);
+		}
+
+		console.log(
+			chalk.green(`✅ Imported ${label} into ${encryptedPath} (${format})`),
+		);
+		for (const key of result.added) {
+			console.log(chalk.green(`  + ${key}`));
+		}
+		for (const key of result.changed) {
+			console.log(chalk.yellow(`  ~ ${key}`));
+		}
+		for (const key of result.kept) {
+			console.log(chalk.dim(`  = ${key} (kept the existing value)`));
+		}
+		console.log(
+			`${result.added.length} added, ${result.changed.length} changed, ${result.kept.length} kept, ${result.unchanged.length} unchanged`,
+		);
+
+		if (fromStdin) {
+			return;
+		}
+
+		// The plaintext source is no longer needed once its values are encrypted
+		let deleteSource = options.deleteSource;
+		if (!deleteSource && process.stdin.isTTY) {
+			({ deleteSource } = await inquirer.prompt([
+				{
+					type: "confirm",
+					name: "deleteSource",
+					message: `Securely delete the plaintext ${source}?`,
+					default: false,
+				},
+			]));
+		}
+		if (deleteSource) {
+			secureDeleteFile(source);
+			console.log(chalk.green(`✅ Securely deleted ${source}`));
+		} else {
+			console.log(
+				chalk.yellow(
+					`\n💡 Tip: Delete ${source} once you no longer need it, or run the import with --delete-source`,
+				),
+			);
+		}
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Run a command with the variables of an encrypted .env file, decrypted in
+ * memory, added to its environment
+ * @param command The command and its arguments
+ * @param options Command options
+ */
+export function runCommand(
+	command: string[],
+	options: VariableCommandOptions & { override?: boolean } = {},
+) {
+	try {
+		const [file, ...args] = command;
+		if (!file) {
+			throw new Error("No command given, e.g. super-env run -- npm start");
+		}
+
+		const { document } = readVariables(options);
+		const variables = options.override
+			? expandEnvValues(document, {}, process.env)
+			: expandEnvValues(document);
+		// Variables that are already set win unless --override is given
+		const env = options.override
+			? { ...process.env, ...variables }
+			: { ...variables, ...process.env };
+
+		const child = spawn(file, args, { stdio: "inherit", env });
+
+		// Forward termination signals so the child can shut down cleanly
+		const signals: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"];
+		const forward = (signal: NodeJS.Signals) => child.kill(signal);
+		for (const signal of signals) {
+			process.on(signal, forward);
+		}
+
+		child.on("error", (error) => {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+			process.exit(1);
+		});
+
+		// Exit the same way as the child
+		child.on("exit", (code, signal) => {
+			for (const forwarded of signals) {
+				process.off(forwarded, forward);
+			}
+			if (signal) {
+				process.kill(process.pid, signal);
+			} else {
+				process.exit(code ?? 1);
+			}
+		});
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Compare the variables of two encrypted .env files, each given as a file
+ * path or as a git revision of the environment's encrypted file. Values are
+ * masked unless asked otherwise.
+ * @param from The previous version
+ * @param to The new version (default: the environment's encrypted file)
+ * @param options Command options
+ */
+export function diffCommand(
+	from: string,
+	to: string | undefined,
+	options: {
+		key?: string;
+		env?: string;
+		keyStdin?: boolean;
+		identity?: string;
+		showValues?: boolean;
+		json?: boolean;
+	} = {},
+) {
+	try {
+		const paths = getEnvironmentPaths(options.env);
+		const keyOptions = getMasterKeyOptions(
+			options,
+			options.key || paths.keyFilePath,
+		);
+
+		// Files are decrypted with the key of their own environment
+		const read = (source: string) => {
+			// Compare the values as written, without expanding references
+			if (existsSync(source)) {
+				return getEnvValues(
+					parseEnvDocument(
+						readEncryptedEnvFile(source, {
+							...keyOptions,
+							keyFilePath:
+								options.key ||
+								getEnvironmentPaths(getEnvironmentFromPath(source)).keyFilePath,
+						}),
+					),
+				);
+			}
+			const content = readGitFile(source, paths.encryptedEnvFilePath);
+			return getEnvValues(
+				parseEnvDocument(
+					decryptEnvContent(content, resolveContentKey(content, keyOptions)),
+				),
+			);
+		};
+
+		const changes = diffEnvValues(
+			read(from),
+			read(to ?? paths.encryptedEnvFilePath),
+		);
+
+		if (options.json) {
+			const output = options.showValues
+				? changes
+				: changes.map(({ key, type }) => ({ key, type }));
+			console.log(JSON.stringify(output, null, 2));
+			return;
+		}
+
+		if (changes.length === 0) {
+			console.log(chalk.green("✅ No differences"));
+			return;
+		}
+
+		for (const { key, type, from: previous, to: next } of changes) {
+			const show = (value?: string) =>
+				options.showValues ? `=${formatEnvValue(value ?? "")}` : "";
+			if (type === "added") {
+				console.log(chalk.green(`+ ${key}${show(next)}`));
+			} else if (type === "removed") {
+				console.log(chalk.red(`- ${key}${show(previous)}`));
+			} else if (options.showValues) {
+				console.log(
+					chalk.yellow(
+						`~ ${key}: ${formatEnvValue(previous ?? "")} → ${formatEnvValue(next ?? "")}`,
+					),
+				);
+			} else {
+				console.log(chalk.yellow(`~ ${key}`));
+			}
+		}
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Check the variables of an encrypted .env file against the schema exported
+ * by a module, reporting every missing, invalid and extra key
+ * @param options Command options
+ */
+export async function checkCommand(
+	options: VariableCommandOptions & { schema?: string } = {},
+) {
+	try {
+		if (!options.schema) {
+			throw new Error("--schema is required, e.g. --schema ./env.ts");
+		}
+
+		const schema = await loadEnvSchema(options.schema);
+		const { encryptedPath, document } = readVariables(options);
+
+		console.log(
+			chalk.blue(`🔍 Checking ${encryptedPath} against ${options.schema}`),
+		);
+		// References are expanded the way they are when the file is loaded
+		const values = expandEnvValues(document);
+		const { missing, invalid, extra } = checkEnvValues(schema, values);
+
+		for (const key of missing) {
+			console.log(chalk.red(`- Missing: ${key}`));
+		}
+		for (const { key, message } of invalid) {
+			console.log(chalk.red(`- Invalid: ${key ? `${key}: ` : ""}${message}`));
+		}
+		for (const key of extra) {
+			console.log(chalk.yellow(`- Not in the schema: ${key}`));
+		}
+
+		const problems = missing.length + invalid.length + extra.length;
+		if (problems > 0) {
+			throw new Error(
+				`${encryptedPath} does not match the schema (${problems} problem${problems === 1 ? "" : "s"})`,
+			);
+		}
+		console.log(
+			chalk.green(
+				`\n✅ ${encryptedPath} matches the schema (${Object.keys(values).length} variables)`,
+			),
+		);
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Write a .env.example file listing every variable of the schema or of the
+ * encrypted .env file with blank values, or check that it is up to date
+ * @param options Command options
+ */
+export async function exampleCommand(
+	options: VariableCommandOptions & {
+		schema?: string;
+		output?: string;
+		check?: boolean;
+	} = {},
+) {
+	try {
+		const outputPath = options.output || EXAMPLE_FILENAME;
+
+		let example: string;
+		if (options.schema) {
+			example = generateExampleFromSchema(await loadEnvSchema(options.schema));
+		} else {
+			const { encryptedPath, document } = readVariables(options, true);
+			if (!existsSync(encryptedPath)) {
+				throw new Error(
+					`${encryptedPath} not found: encrypt your .env file or use --schema`,
+				);
+			}
+			example = generateExampleFromEnv(stringifyEnvDocument(document));
+		}
+
+		if (options.check) {
+			const current = existsSync(outputPath)
+				? readFileSync(outputPath, "utf8")
+				: undefined;
+			if (current !== example) {
+				throw new Error(
+					`${outputPath} is out of date: run super-env example${options.schema ? ` --schema ${options.schema}` : ""} and commit the result`,
+				);
+			}
+			console.log(chalk.green(`✅ ${outputPath} is up to date`));
+			return;
+		}
+
+		writeFileSync(outputPath, example);
+		console.log(chalk.green(`✅ Wrote ${outputPath}`));
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Write a declaration file typing process.env from the schema or from the
+ * keys of the encrypted .env file, optionally regenerating it on changes
+ * @param options Command options
+ */
+export async function typegenCommand(
+	options: VariableCommandOptions & {
+		schema?: string;
+		output?: string;
+		watch?: boolean;
+	} = {},
+) {
+	try {
+		const paths = getEnvironmentPaths(options.env);
+		const encryptedPath = options.file || paths.encryptedEnvFilePath;
+		const outputPath = options.output || TYPES_FILENAME;
+		// Resolve the key once, as stdin can only be read once in watch mode
+		const keyOptions = options.schema
+			? undefined
+			: getMasterKeyOptions(options, options.key || paths.keyFilePath);
+
+		const generate = async (reload = false) => {
+			let fields: EnvField[];
+			if (options.schema) {
+				fields = getSchemaFields(
+					await loadEnvSchema(options.schema, { reload }),
+				);
+			} else {
+				fields = Object.keys(
+					readEncryptedEnvValues(encryptedPath, keyOptions),
+				).map((key) => ({ key, type: "string", optional: false }));
+			}
+			writeFileSync(outputPath, generateEnvDeclaration(fields));
+			console.log(
+				chalk.green(
+					`✅ Wrote ${outputPath} (${fields.length} variable${fields.length === 1 ? "" : "s"})`,
+				),
+			);
+		};
+
+		await generate();
+		if (!options.watch) {
+			return;
+		}
+
+		const watchedPath = options.schema || encryptedPath;
+		console.log(chalk.blue(`👀 Watching ${watchedPath} for changes`));
+		// Regenerate one change at a time, reporting errors without stopping
+		let queue = Promise.resolve();
+		watchFile(watchedPath, { interval: 500 }, (current, previous) => {
+			if (current.mtimeMs === previous.mtimeMs) {
+				return;
+			}
+			queue = queue.then(() =>
+				generate(true).catch((error) => {
+					console.error(
+						chalk.red(
+							`❌ Error: ${error instanceof Error ? error.message : error}`,
+						),
+					);
+				}),
+			);
+		});
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Re-encrypt a legacy .env.enc file in the current authenticated format
+ * @param options Command options
+ */
+export function migrateCommand(
+	options: {
+		file?: string;
+		key?: string;
+		env?: string;
+		keyStdin?: boolean;
+	} = {},
+) {
+	try {
+		const paths = getEnvironmentPaths(options.env);
+		const encryptedPath = options.file || paths.encryptedEnvFilePath;
+		const keyPath = options.key || paths.keyFilePath;
+
+		console.log(chalk.blue(`🔁 Migrating ${encryptedPath}`));
+		if (migrateEnvFile(encryptedPath, getMasterKeyOptions(options, keyPath))) {
+			console.log(
+				chalk.green(
+					`\n✅ Successfully re-encrypted ${encryptedPath} in the current format`,
+				),
+			);
+		} else {
+			console.log(
+				chalk.green(`\n✅ ${encryptedPath} already uses the current format`),
+			);
+		}
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Generate a new master key and re-encrypt every encrypted .env file with it
+ * @param options Command options
+ */
+export function rotateKeyCommand(
+	options: {
+		file?: string[];
+		key?: string;
+		env?: string;
+		keyStdin?: boolean;
+	} = {},
+) {
+	try {
+		const paths = getEnvironmentPaths(options.env);
+		const keyPath = options.key || paths.keyFilePath;
+
+		// Rotate the environment's encrypted file along with any extra files
+		const files = [
+			...new Set([
+				...(existsSync(paths.encryptedEnvFilePath)
+					? [paths.encryptedEnvFilePath]
+					: []),
+				...(options.file ?? []),
+			]),
+		];
+		if (files.length === 0) {
+			throw new Error(
+				`No encrypted files to rotate: ${paths.encryptedEnvFilePath} not found`,
+			);
+		}
+
+		console.log(chalk.blue(`🔑 Rotating ${keyPath} for ${files.join(", ")}`));
+		const result = rotateMasterKey(
+			files,
+			getMasterKeyOptions(options, keyPath),
+		);
+		createGitignoreIfNotExists(["*.key.*.bak"]);
+
+		console.log(
+			chalk.green(
+				`\n✅ Re-encrypted ${result.files.join(", ")} with a new master key in ${result.keyFilePath}`,
+			),
+		);
+		console.log(
+			chalk.cyan(`🗄️  The previous key was saved to ${result.backupFilePath}`),
+		);
+		console.log(
+			chalk.yellow(
+				`\n💡 Share the new key with your team and update ${MASTER_KEY_ENV_VAR} wherever it is set (CI, deployments)`,
+			),
+		);
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Register the git diff and merge drivers for encrypted .env files
+ * @param options Command options
+ */
+export function gitSetupCommand(options: { command?: string } = {}) {
+	try {
+		configureGitDrivers(options.command);
+		createGitignoreIfNotExists(GIT_ATTRIBUTES, ".gitattributes");
+		console.log(
+			chalk.green(
+				"\n✅ git diff and git merge now work on the decrypted contents of encrypted .env files",
+			),
+		);
+		console.log(
+			chalk.yellow(
+				"\n💡 Tip: Commit .gitattributes, and ask your team to run super-env git-setup once as the git config is not shared",
+			),
+		);
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Get the master key options for an encrypted file handled by a git driver,
+ * using the environment its name refers to
+ * @param filePath The path of the file in the repository
+ * @param options Command options
+ */
+function getGitDriverKeyOptions(
+	filePath: string,
+	options: { key?: string; identity?: string },
+): MasterKeyOptions {
+	return getMasterKeyOptions(
+		options,
+		options.key ||
+			getEnvironmentPaths(getEnvironmentFromPath(filePath)).keyFilePath,
+	);
+}
+
+/**
+ * Print the decrypted contents of an encrypted .env file, used by git as a
+ * textconv filter. Files that cannot be decrypted are printed as-is so
+ * diffs keep working without the key.
+ * @param file The file to convert
+ * @param options Command options
+ */
+export function gitTextconvCommand(
+	file: string,
+	options: { key?: string; identity?: string } = {},
+) {
+	try {
+		process.stdout.write(
+			readEncryptedEnvFile(file, getGitDriverKeyOptions(file, options)),
+		);
+	} catch (error) {
+		console.error(
+			chalk.yellow(
+				`⚠️ Could not decrypt ${file}, showing the encrypted contents: ${
+					error instanceof Error ? error.message : error
+				}`,
+			),
+		);
+		process.stdout.write(readFileSync(file, "utf8"));
+	}
+}
+
+/**
+ * Merge two versions of an encrypted .env file key by key, used by git as a
+ * merge driver. The result is encrypted into the file of our version, and
+ * the command fails when the same key was changed on both sides.
+ * @param basePath The common ancestor (%O)
+ * @param oursPath Our version, replaced by the result (%A)
+ * @param theirsPath Their version (%B)
+ * @param filePath The path of the file in the repository (%P)
+ * @param options Command options
+ */
+export function gitMergeCommand(
+	basePath: string,
+	oursPath: string,
+	theirsPath: string,
+	filePath: string = oursPath,
+	options: { key?: string; identity?: string } = {},
+) {
+	try {
+		const keyOptions = getGitDriverKeyOptions(filePath, options);
+		// Git passes an empty file when a version does not exist
+		const read = (path: string) =>
+			readFileSync(path, "utf8").trim()
+				? readEncryptedEnvFile(path, keyOptions)
+				: "";
+
+		const { content, conflicts } = mergeEnvContent(
+			read(basePath),
+			read(oursPath),
+			read(theirsPath),
+		);
+		writeEncryptedEnvFile(oursPath, content, keyOptions);
+
+		if (conflicts.length > 0) {
+			console.error(
+				chalk.yellow(
+					`⚠️ Conflicting changes to ${conflicts.join(", ")} in ${filePath}: resolve them with super-env edit`,
+				),
+			);
+			process.exit(1);
+		}
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Generate a personal keypair for public-key recipients
+ * @param options Command options
+ */
+export function keygenCommand(
+	options: { output?: string; force?: boolean } = {},
+) {
+	const identityPath = options.output || DEFAULT_IDENTITY_FILE;
+
+	try {
+		if (existsSync(identityPath) && !options.force) {
+			const { publicKey } = loadIdentity(identityPath);
+			throw new Error(
+				`${identityPath} already exists (public key: ${publicKey}). Use --force to replace it`,
+			);
+		}
+
+		const identity = generateIdentity();
+		saveIdentity(identity, identityPath);
+
+		console.log(chalk.green(`✅ Saved your identity to ${identityPath}`));
+		console.log(chalk.bold("\n🔑 Your public key:"));
+		console.log(identity.publicKey);
+		console.log(
+			chalk.yellow(
+				`\n💡 Share your public key with a teammate so they can run ${chalk.bold(`npx super-env recipients add ${identity.publicKey}`)}`,
+			),
+		);
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Options shared by the recipients subcommands
+ */
+interface RecipientsCommandOptions {
+	file?: string;
+	key?: string;
+	env?: string;
+	keyStdin?: boolean;
+	identity?: string;
+}
+
+/**
+ * Save the recipients file and re-wrap the data key of the encrypted file for them
+ * @param recipients The new recipients
+ * @param options Command options
+ * @param rotateDataKey Whether to re-encrypt the values with a new data key
+ */
+function updateRecipients(
+	recipients: Recipient[],
+	options: RecipientsCommandOptions,
+	rotateDataKey = false,
+) {
+	const paths = getEnvironmentPaths(options.env);
+	const encryptedPath = options.file || paths.encryptedEnvFilePath;
+
+	if (existsSync(encryptedPath)) {
+		setEnvFileRecipients(
+			encryptedPath,
+			recipients.map(({ publicKey }) => publicKey),
+			getMasterKeyOptions(options, options.key || paths.keyFilePath),
+			{ rotateDataKey },
+		);
+		console.log(chalk.green(`✅ Updated the recipients of ${encryptedPath}`));
+	}
+
+	saveRecipients(paths.recipientsFilePath, recipients);
+	console.log(chalk.green(`✅ Saved ${paths.recipientsFilePath}`));
+}
+
+/**
+ * Add a recipient to an encrypted .env file
+ * @param publicKey The recipient's public key
+ * @param options Command options
+ */
+export function recipientsAddCommand(
+	publicKey: string,
+	options: RecipientsCommandOptions & { name?: string } = {},
+) {
+	try {
+		const paths = getEnvironmentPaths(options.env);
+		const recipients = loadRecipients(paths.recipientsFilePath);
+		const fingerprint = getFingerprint(publicKey);
+
+		if (
+			recipients.some(
+				(entry) => getFingerprint(entry.publicKey) === fingerprint,
+			)
+		) {
+			throw new Error(`${fingerprint} is already a recipient`);
+		}
+
+		// Keep access to the file when switching from the master key to recipients
+		if (recipients.length === 0) {
+			const identity = loadIdentity(options.identity);
+			if (getFingerprint(identity.publicKey) !== fingerprint) {
+				recipients.push({
+					publicKey: identity.publicKey,
+					name: userInfo().username,
+				});
+			}
+		}
+
+		recipients.push({ publicKey, ...(options.name && { name: options.name }) });
+		console.log(chalk.blue(`👥 Adding recipient ${fingerprint}`));
+		updateRecipients(recipients, options);
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Remove a recipient from an encrypted .env file
+ * @param recipient The recipient's public key, fingerprint or name
+ * @param options Command options
+ */
+export function recipientsRemoveCommand(
+	recipient: string,
+	options: RecipientsCommandOptions & { rotate?: boolean } = {},
+) {
+	try {
+		const paths = getEnvironmentPaths(options.env);
+		const recipients = loadRecipients(paths.recipientsFilePath);
+		const remaining = recipients.filter(
+			(entry) =>
+				entry.publicKey !== recipient &&
+				entry.name !== recipient &&
+				getFingerprint(entry.publicKey) !== recipient,
+		);
+
+		if (remaining.length === recipients.length) {
+			throw new Error(
+				`${recipient} is not listed in ${paths.recipientsFilePath}`,
+			);
+		}
+
+		console.log(chalk.blue(`👥 Removing recipient ${recipient}`));
+		updateRecipients(remaining, options, options.rotate);
+		if (!options.rotate) {
+			console.log(
+				chalk.yellow(
+					"\n💡 The removed recipient may still know the current data key. Use --rotate to re-encrypt the values with a new one",
+				),
+			);
+		}
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * List the recipients of an encrypted .env file
+ * @param options Command options
+ */
+export function recipientsListCommand(options: RecipientsCommandOptions = {}) {
+	try {
+		const paths = getEnvironmentPaths(options.env);
+		const encryptedPath = options.file || paths.encryptedEnvFilePath;
+		const recipients = loadRecipients(paths.recipientsFilePath);
+		const wrapped = new Set(
+			existsSync(encryptedPath)
+				? splitRecipientHeader(readFileSync(encryptedPath, "utf8")).stanzas.map(
+						(stanza) => stanza.fingerprint,
+					)
+				: [],
+		);
+
+		if (recipients.length === 0 && wrapped.size === 0) {
+			console.log(
+				chalk.yellow(
+					`${encryptedPath} has no recipients and is encrypted with the master key`,
+				),
+			);
+			return;
+		}
+
+		console.log(chalk.bold(`👥 Recipients of ${encryptedPath}:`));
+		for (const { publicKey, name } of recipients) {
+			const fingerprint = getFingerprint(publicKey);
+			const status = wrapped.delete(fingerprint)
+				? chalk.green("✓")
+				: chalk.yellow("(not yet in the encrypted file)");
+			console.log(`  ${fingerprint}  ${name ?? publicKey}  ${status}`);
+		}
+		for (const fingerprint of wrapped) {
+			console.log(
+				`  ${fingerprint}  ${chalk.yellow(`(not listed in ${paths.recipientsFilePath})`)}`,
+			);
+		}
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Change the passphrase protecting a master key file
+ * @param options Command options
+ */
+export async function keyPasswdCommand(
+	options: { key?: string; env?: string } = {},
+) {
+	try {
+		const keyPath = options.key || getEnvironmentPaths(options.env).keyFilePath;
+		const masterKey = loadMasterKey(keyPath, { passphrase: enteredPassphrase });
+
+		const passphrase = await promptPassphrase(
+			`New passphrase for ${keyPath} (leave empty to remove the protection):`,
+			true,
+		);
+		saveMasterKey(masterKey, keyPath, { passphrase: passphrase || undefined });
+
+		console.log(
+			chalk.green(
+				passphrase
+					? `\n✅ Changed the passphrase of ${keyPath}`
+					: `\n✅ Removed the passphrase from ${keyPath}`,
+			),
+		);
+	} catch (error) {
+		if (error instanceof Error) {
+			console.error(chalk.red(`❌ Error: ${error.message}`));
+		} else {
+			console.error(chalk.red("❌ An unknown error occurred"));
+		}
+		process.exit(1);
+	}
+}
+
+/**
+ * Create and configure the CLI command parser
+ */
+export function createCLI(): Command {
+	const program = new Command();
+
+	program
+		.name("super-env")
+		.description("Secure .env file management with type-safety")
+		.version("0.1.0");
+
+	// Ask for the passphrase of a protected master key before running a command
+	program.hook("preAction", async (_, actionCommand) => {
+		const options = actionCommand.opts();
+		if (
+			COMMANDS_WITHOUT_MASTER_KEY.has(getCommandPath(actionCommand)) ||
+			options.keyStdin ||
+			process.env[MASTER_KEY_ENV_VAR] ||
+			process.env[PASSPHRASE_ENV_VAR] ||
+			!process.stdin.isTTY
+		) {
+			return;
+		}
+
+		let keyFilePath: string;
+		try {
+			keyFilePath = options.key || getEnvironmentPaths(options.env).keyFilePath;
+		} catch {
+			// Invalid options are reported by the command itself
+			return;
+		}
+
+		if (isPassphraseProtected(keyFilePath)) {
+			enteredPassphrase = await promptPassphrase(
+				`Passphrase for ${keyFilePath}:`,
+			);
+		}
+	});
+
+	program
+		.command("init")
+		.description("Initialize super-env in your project")
+		.option(
+			"-f, --framework <framework>",
+			"Specify the framework you are using (nextjs or vite)",
+		)
+		.option(
+			"--passphrase",
+			"Protect the master key with a passphrase (default: $SUPER_ENV_PASSPHRASE or prompt)",
+		)
+		.option(
+			"--env <environment>",
+			"Environment to use, e.g. production for .env.production.enc and MASTER_KEY.production.key",
+		)
+		.action((options) => initCommand(options));
+
+	program
+		.command("encrypt")
+		.description("Encrypt a .env file")
+		.option("-i, --input <input>", "Input .env file path (default: .env)")
+		.option(
+			"-o, --output <output>",
+			"Output encrypted file path (default: .env.enc)",
+		)
+		.option("-k, --key <key>", "Master key file path (default: MASTER_KEY.key)")
+		.option(
+			"-m, --mode <mode>",
+			"Encryption mode: file (whole file) or value (per value, keys stay readable) (default: mode of the existing output, or file)",
+		)
+		.option(
+			"--env <environment>",
+			"Environment to use, e.g. production for .env.production.enc and MASTER_KEY.production.key",
+		)
+		.option("--key-stdin", "Read the master key (base64 or hex) from stdin")
+		.option(
+			"--identity <file>",
+			"Identity file for files encrypted for recipients (default: $SUPER_ENV_IDENTITY or ~/.super-env/identity.key)",
+		)
+		.action((options) => encryptCommand(options));
+
+	program
+		.command("decrypt")
+		.description("Decrypt a .env.enc file")
+		.option(
+			"-i, --input <input>",
+			"Input encrypted file path (default: .env.enc)",
+		)
+		.option("-o, --output <output>", "Output .env file path (default: .env)")
+		.option("-k, --key <key>", "Master key file path (default: MASTER_KEY.key)")
+		.option(
+			"--env <environment>",
+			"Environment to use, e.g. production for .env.production.enc and MASTER_KEY.production.key",
+		)
+		.option("--key-stdin", "Read the master key (base64 or hex) from stdin")
+		.option(
+			"--identity <file>",
+			"Identity file for files encrypted for recipients (default: $SUPER_ENV_IDENTITY or ~/.super-env/identity.key)",
+		)
+		.action((options) => decryptCommand(options));
+
+	program
+		.command("edit")
+		.description("Edit an encrypted .env file")
+		.option("-f, --file <file>", "Encrypted file path (default: .env.enc)")
+		.option("-k, --key <key>", "Master key file path (default: MASTER_KEY.key)")
+		.option("-e, --editor <editor>", "Editor to use (default: $EDITOR or vim)")
+		.option(
+			"--env <environment>",
+			"Environment to use, e.g. production for .env.production.enc and MASTER_KEY.production.key",
+		)
+		.option(
+			"--key-stdin",
+			"Read the master key (base64 or hex) from stdin; the editor then uses the terminal",
+		)
+		.option(
+			"--identity <file>",
+			"Identity file for files encrypted for recipients (default: $SUPER_ENV_IDENTITY or ~/.super-env/identity.key)",
+		)
+		.action((options) => editCommand(options));
+
+	const addVariableOptions = (command: Command) =>
+		command
+			.option("-f, --file <file>", "Encrypted file path (default: .env.enc)")
+			.option(
+				"-k, --key <key>",
+				"Master key file path (default: MASTER_KEY.key)",
+			)
+			.option(
+				"--env <environment>",
+				"Environment to use, e.g. production for .env.production.enc and MASTER_KEY.production.key",
+			)
+			.option("--key-stdin", "Read the master key (base64 or hex) from stdin")
+			.option(
+				"--identity <file>",
+				"Identity file for files encrypted for recipients (default: $SUPER_ENV_IDENTITY or ~/.super-env/identity.key)",
+			);
+
+	addVariableOptions(
+		program
+			.command("get <name>")
+			.description("Print the value of a variable from an encrypted .env file"),
+	).action((name, options) => getCommand(name, options));
+
+	addVariableOptions(
+		program
+			.command("set <assignment>")
+			.description(
+				"Set a variable in an encrypted .env file (KEY=VALUE, or KEY to read the value from stdin)",
+			),
+	).action((assignment, options) => setCommand(assignment, options));
+
+	addVariableOptions(
+		program
+			.command("unset <name>")
+			.description("Remove a variable from an encrypted .env file"),
+	).action((name, options) => unsetCommand(name, options));
+
+	addVariableOptions(
+		program
+			.command("list")
+			.description("List the variables of an encrypted .env file")
+			.option("--show-values", "Show the values instead of masking them"),
+	).action((options) => listCommand(options));
+
+	addVariableOptions(
+		program
+			.command("export")
+			.description(
+				"Print the decrypted variables as JSON, YAML, shell exports, a Docker env file, a Kubernetes Secret or GitHub Actions environment",
+			)
+			.option(
+				"--format <format>",
+				`Output format: ${EXPORT_FORMATS.join(", ")} (default: json)`,
+			)
+			.option("--prefix <prefix>", "Only export variables with this prefix")
+			.option(
+				"--keys <keys>",
+				"Only export these comma-separated variables, e.g. API_URL,API_KEY",
+			)
+			.option(
+				"--name <name>",
+				`Name of the Kubernetes Secret (default: ${DEFAULT_SECRET_NAME})`,
+			)
+			.option("--namespace <namespace>", "Namespace of the Kubernetes Secret"),
+	).action((options) => exportCommand(options));
+
+	addVariableOptions(
+		program
+			.command("import [source]")
+			.description(
+				"Merge the variables of a plaintext .env, JSON or YAML file (or stdin) into the encrypted .env file",
+			)
+			.option(
+				"--format <format>",
+				`Source format: ${IMPORT_FORMATS.join(", ")} (default: detected from the file)`,
+			)
+			.option(
+				"--strategy <strategy>",
+				`What to do with variables set to another value: ${IMPORT_STRATEGIES.join(", ")} (default: keep)`,
+			)
+			.option(
+				"--delete-source",
+				"Securely delete the plaintext source after importing it",
+			),
+	).action((source, options) => importCommand(source, options));
+
+	addVariableOptions(
+		program
+			.command("run <command...>")
+			.description(
+				"Run a command with the decrypted variables in its environment, e.g. super-env run -- npm start",
+			)
+			.option(
+				"--override",
+				"Let the decrypted variables replace variables that are already set",
+			),
+	).action((command, options) => runCommand(command, options));
+
+	program
+		.command("diff <from> [to]")
+		.description(
+			"Compare encrypted .env files given as file paths or git revisions (default to: the environment's .env.enc)",
+		)
+		.option(
+			"-k, --key <key>",
+			"Master key file path (default: the key of the environment)",
+		)
+		.option(
+			"--env <environment>",
+			"Environment whose encrypted file is read at git revisions, e.g. production for .env.production.enc",
+		)
+		.option("--key-stdin", "Read the master key (base64 or hex) from stdin")
+		.option(
+			"--identity <file>",
+			"Identity file for files encrypted for recipients (default: $SUPER_ENV_IDENTITY or ~/.super-env/identity.key)",
+		)
+		.option("--show-values", "Show the values instead of masking them")
+		.option("--json", "Print the changes as JSON")
+		.action((from, to, options) => diffCommand(from, to, options));
+
+	addVariableOptions(
+		program
+			.command("check")
+			.description(
+				"Check an encrypted .env file against your schema, e.g. in CI",
+			)
+			.option(
+				"-s, --schema <file>",
+				"Module exporting a Zod schema or a { client, server } object",
+			),
+	).action((options) => checkCommand(options));
+
+	addVariableOptions(
+		program
+			.command("example")
+			.description(
+				"Write a .env.example with every variable and blank values, from your schema or the encrypted .env file",
+			)
+			.option(
+				"-s, --schema <file>",
+				"Module exporting a Zod schema or a { client, server } object, used instead of the encrypted file",
+			)
+			.option(
+				"-o, --output <output>",
+				"Output file path (default: .env.example)",
+			)
+			.option(
+				"--check",
+				"Fail if the output file is out of date instead of writing it",
+			),
+	).action((options) => exampleCommand(options));
+
+	addVariableOptions(
+		program
+			.command("typegen")
+			.description(
+				"Write an env.d.ts typing process.env from your schema or the keys of the encrypted .env file",
+			)
+			.option(
+				"-s, --schema <file>",
+				"Module exporting a Zod schema or a { client, server } object, used instead of the encrypted file",
+			)
+			.option("-o, --output <output>", "Output file path (default: env.d.ts)")
+			.option(
+				"-w, --watch",
+				"Regenerate the file when the schema or encrypted file changes",
+			),
+	).action((options) => typegenCommand(options));
+
+	program
+		.command("migrate")
+		.description("Re-encrypt a legacy .env.enc file in the current format")
+		.option("-f, --file <file>", "Encrypted file path (default: .env.enc)")
+		.option("-k, --key <key>", "Master key file path (default: MASTER_KEY.key)")
+		.option(
+			"--env <environment>",
+			"Environment to use, e.g. production for .env.production.enc and MASTER_KEY.production.key",
+		)
+		.option("--key-stdin", "Read the master key (base64 or hex) from stdin")
+		.action((options) => migrateCommand(options));
+
+	program
+		.command("rotate-key")
+		.description(
+			"Generate a new master key and re-encrypt your encrypted .env files with it",
+		)
+		.option(
+			"-f, --file <files...>",
+			"Additional encrypted files to re-encrypt (default: only the environment's .env.enc)",
+		)
+		.option(
+			"-k, --key <key>",
+			"Master key file to rotate (default: MASTER_KEY.key)",
+		)
+		.option(
+			"--key-stdin",
+			"Read the current master key (base64 or hex) from stdin",
+		)
+		.option(
+			"--env <environment>",
+			"Environment to use, e.g. production for .env.production.enc and MASTER_KEY.production.key",
+		)
+		.action((options) => rotateKeyCommand(options));
+
+	program
+		.command("git-setup")
+		.description(
+			"Let git diff and merge encrypted .env files on their decrypted contents",
+		)
+		.option(
+			"-c, --command <command>",
+			"Command git runs super-env with (default: npx super-env)",
+		)
+		.action((options) => gitSetupCommand(options));
+
+	const addGitDriverOptions = (command: Command) =>
+		command
+			.option(
+				"-k, --key <key>",
+				"Master key file path (default: the key of the file's environment)",
+			)
+			.option(
+				"--identity <file>",
+				"Identity file for files encrypted for recipients (default: $SUPER_ENV_IDENTITY or ~/.super-env/identity.key)",
+			);
+
+	addGitDriverOptions(
+		program
+			.command("git-textconv <file>")
+			.description(
+				"Print a decrypted encrypted .env file (git textconv driver)",
+			),
+	).action((file, options) => gitTextconvCommand(file, options));
+
+	addGitDriverOptions(
+		program
+			.command("git-merge <base> <ours> <theirs> [path]")
+			.description("Merge encrypted .env files key by key (git merge driver)"),
+	).action((base, ours, theirs, path, options) =>
+		gitMergeCommand(base, ours, theirs, path, options),
+	);
+
+	program
+		.command("keygen")
+		.description("Generate a personal keypair for public-key recipients")
+		.option(
+			"-o, --output <output>",
+			"Identity file path (default: ~/.super-env/identity.key)",
+		)
+		.option("--force", "Replace an existing identity")
+		.action((options) => keygenCommand(options));
+
+	program
+		.command("key")
+		.description("Manage the master key file")
+		.command("passwd")
+		.description(
+			"Change, add or remove the passphrase protecting the master key",
+		)
+		.option("-k, --key <key>", "Master key file path (default: MASTER_KEY.key)")
+		.option(
+			"--env <environment>",
+			"Environment to use, e.g. production for MASTER_KEY.production.key",
+		)
+		.addHelpText(
+			"after",
+			"\nThere is no --key-stdin option: this command changes the protection of a key file, and the new passphrase is entered on stdin.",
+		)
+		.action((options) => keyPasswdCommand(options));
+
+	const recipients = program
+		.command("recipients")
+		.description(
+			"Manage the public keys an encrypted .env file is shared with",
+		);
+
+	const addRecipientOptions = (command: Command) =>
+		command
+			.option("-f, --file <file>", "Encrypted file path (default: .env.enc)")
+			.option(
+				"-k, --key <key>",
+				"Master key file path, when switching from the master key (default: MASTER_KEY.key)",
+			)
+			.option("--key-stdin", "Read the master key (base64 or hex) from stdin")
+			.option(
+				"--identity <file>",
+				"Identity file for files encrypted for recipients (default: $SUPER_ENV_IDENTITY or ~/.super-env/identity.key)",
+			)
+			.option(
+				"--env <environment>",
+				"Environment to use, e.g. production for .env.production.enc and .env.production.recipients",
+			);
+
+	addRecipientOptions(
+		recipients
+			.command("add <publicKey>")
+			.description("Share the encrypted file with a public key")
+			.option("-n, --name <name>", "Name to remember the recipient by"),
+	).action((publicKey, options) => recipientsAddCommand(publicKey, options));
+
+	addRecipientOptions(
+		recipients
+			.command("remove <recipient>")
+			.description(
+				"Stop sharing the encrypted file with a public key, fingerprint or name",
+			)
+			.option("--rotate", "Re-encrypt the values with a new data key"),
+	).action((recipient, options) => recipientsRemoveCommand(recipient, options));
+
+	addRecipientOptions(
+		recipients.command("list").description("List the recipients"),
+	).action((options) => recipientsListCommand(options));
 
 	return program;
 }
@@ -0,0 +1,57 @@
+/**
+ * Comparison of the variables of two .env files
+ */
+
+/**
+ * A variable that differs between two .env files
+ */
+export interface EnvChange {
+	/**
+	 * The variable name
+	 */
+	key: string;
+
+	/**
+	 * Whether the variable was added, removed or given a new value
+	 */
+	type: "added" | "removed" | "changed";
+
+	/**
+	 * The previous value, unless the variable was added
+	 */
+	from?: string;
+
+	/**
+	 * The new value, unless the variable was removed
+	 */
+	to?: string;
+}
+
+/**
+ * Compare two sets of variables
+ * @param from - The previous variables
+ * @param to - The new variables
+ * @returns The changes, in the order of the previous then the new variables
+ */
+export function diffEnvValues(
+	from: Record<string, string>,
+	to: Record<string, string>,
+): EnvChange[] {
+	const changes: EnvChange[] = [];
+
+	for (const [key, value] of Object.entries(from)) {
+		if (!Object.hasOwn(to, key)) {
+			changes.push({ key, type: "removed", from: value });
+		} else if (to[key] !== value) {
+			changes.push({ key, type: "changed", from: value, to: to[key] });
+		}
+	}
+
+	for (const [key, value] of Object.entries(to)) {
+		if (!Object.hasOwn(from, key)) {
+			changes.push({ key, type: "added", to: value });
+		}
+	}
+
+	return changes;
+}
@@ -0,0 +1,317 @@
+/**
+ * Line-preserving parsing and editing of .env files
+ */
+
+/**
+ * The quotes around a value
+ */
+export type EnvQuote = '"' | "'" | "`";
+
+/**
+ * A KEY=VALUE assignment, possibly spanning several lines
+ */
+export interface EnvEntry {
+	type: "entry";
+	key: string;
+	value: string;
+	raw: string;
+
+	/**
+	 * The quotes around the value, if any. Single-quoted values are not expanded.
+	 */
+	quote?: EnvQuote;
+
+	/**
+	 * The text after the value, such as an inline comment, kept when the
+	 * value is updated
+	 */
+	suffix?: string;
+}
+
+/**
+ * A comment, blank line or any other line that is kept as-is
+ */
+export interface EnvText {
+	type: "text";
+	raw: string;
+}
+
+export type EnvLine = EnvEntry | EnvText;
+
+/**
+ * A parsed .env file that can be serialized back without losing comments or ordering
+ */
+export interface EnvDocument {
+	lines: EnvLine[];
+}
+
+const ENTRY_PATTERN =
+	/^(\s*(?:export\s+)?)([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/;
+
+/**
+ * Find the index of the closing quote in a quoted value
+ * @param {string} text - The text following the opening quote
+ * @param {string} quote - The quote character
+ * @returns {number} The index of the closing quote, or -1 if it is missing
+ */
+function findClosingQuote(text: string, quote: string): number {
+	for (let i = 0; i < text.length; i++) {
+		if (quote === '"' && text[i] === "\\") {
+			i++;
+		} else if (text[i] === quote) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Resolve the escape sequences supported in double-quoted values
+ * @param {string} text - The raw text between the quotes
+ */
+function unescapeDoubleQuoted(text: string): string {
+	return text.replace(/\\([nrt"\\])/g, (_, char: string) => {
+		switch (char) {
+			case "n":
+				return "\n";
+			case "r":
+				return "\r";
+			case "t":
+				return "\t";
+			default:
+				return char;
+		}
+	});
+}
+
+/**
+ * Parse the contents of a .env file into a document
+ * @param {string} content - The .env file contents
+ * @returns {EnvDocument} The parsed document
+ */
+export function parseEnvDocument(content: string): EnvDocument {
+	const rawLines = content.split("\n");
+	const lines: EnvLine[] = [];
+
+	for (let i = 0; i < rawLines.length; i++) {
+		const rawLine = rawLines[i]!;
+		const match = ENTRY_PATTERN.exec(rawLine.replace(/\r$/, ""));
+		if (!match) {
+			lines.push({ type: "text", raw: rawLine });
+			continue;
+		}
+
+		const key = match[2]!;
+		const rest = match[3]!;
+		const quote = rest[0];
+
+		if (quote === '"' || quote === "'" || quote === "`") {
+			// Quoted values may continue on the following lines
+			let raw = rawLine;
+			let body = rest.slice(1);
+			let end = findClosingQuote(body, quote);
+			let j = i;
+			while (end === -1 && j + 1 < rawLines.length) {
+				j++;
+				raw += `\n${rawLines[j]}`;
+				body += `\n${rawLines[j]!.replace(/\r$/, "")}`;
+				end = findClosingQuote(body, quote);
+			}
+
+			// An unterminated quote is read as an unquoted value below
+			if (end !== -1) {
+				const inner = body.slice(0, end);
+				const value = quote === '"' ? unescapeDoubleQuoted(inner) : inner;
+				const suffix = body.slice(end + 1);
+				lines.push({
+					type: "entry",
+					key,
+					value,
+					raw,
+					quote,
+					...(suffix && { suffix }),
+				});
+				i = j;
+				continue;
+			}
+		}
+
+		// An unquoted value ends at a comment, or is empty if only a comment follows
+		const value = rest.replace(/(^|\s+)#.*$/, "").trim();
+		const suffix = rest.slice(value.length);
+		lines.push({
+			type: "entry",
+			key,
+			value,
+			raw: rawLine,
+			...(suffix && { suffix }),
+		});
+	}
+
+	return { lines };
+}
+
+/**
+ * Serialize a document back to .env file contents
+ * @param {EnvDocument} document - The document to serialize
+ */
+export function stringifyEnvDocument(document: EnvDocument): string {
+	return document.lines.map((line) => line.raw).join("\n");
+}
+
+/**
+ * Quote a value if needed so it can be written to a .env file
+ * @param {string} value - The value to format
+ * @param {EnvQuote} quote - The quotes to keep, if the value can be written with them
+ */
+export function formatEnvValue(value: string, quote?: EnvQuote): string {
+	if (quote === "'" || quote === "`") {
+		if (!value.includes(quote) && !value.includes("\n")) {
+			return `${quote}${value}${quote}`;
+		}
+	} else if (quote === undefined && /^[^\s"'`#\\]*$/.test(value)) {
+		return value;
+	}
+
+	const escaped = value
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, "\\n")
+		.replace(/\r/g, "\\r");
+	return `"${escaped}"`;
+}
+
+/**
+ * Get all variables defined in a document (later definitions win)
+ * @param {EnvDocument} document - The parsed document
+ */
+export function getEnvValues(document: EnvDocument): Record<string, string> {
+	const values: Record<string, string> = {};
+	for (const line of document.lines) {
+		if (line.type === "entry") {
+			values[line.key] = line.value;
+		}
+	}
+	return values;
+}
+
+/**
+ * Expand `${VAR}` and `${VAR:-default}` references in the values of a
+ * document. References are resolved against the environment first, then
+ * against the variables defined earlier in the document, then against the
+ * inherited variables; unset variables expand to an empty string.
+ * Single-quoted values and references written as `\${VAR}` are kept as-is.
+ * @param {EnvDocument} document - The parsed document
+ * @param {Record<string, string | undefined>} env - The environment to resolve references against
+ * @param {Record<string, string | undefined>} inherited - Variables used when neither the environment nor the
+ * document defines them, e.g. those of files loaded before
+ * @returns {Record<string, string>} The expanded variables (later definitions win)
+ */
+export function expandEnvValues(
+	document: EnvDocument,
+	env: Record<string, string | undefined> = process.env,
+	inherited: Record<string, string | undefined> = {},
+): Record<string, string> {
+	const values: Record<string, string> = {};
+	for (const line of document.lines) {
+		if (line.type !== "entry") {
+			continue;
+		}
+		values[line.key] =
+			line.quote === "'"
+				? line.value
+				: line.value.replace(
+						/(\\?)\$\{([A-Za-z_][A-Za-z0-9_.-]*)(?::-([^}]*))?\}/g,
+						(match, escaped: string, name: string, fallback?: string) => {
+							if (escaped) {
+								return match.slice(1);
+							}
+							const value = env[name] ?? values[name] ?? inherited[name];
+							return fallback !== undefined && !value
+								? fallback
+								: (value ?? "");
+						},
+					);
+	}
+	return values;
+}
+
+/**
+ * Replace the value of an entry in place, keeping everything else on its
+ * line: an `export` prefix, the spacing around `=`, the quotes around the
+ * value and any inline comment
+ * @param {EnvEntry} entry - The entry to update
+ * @param {string} value - The new value
+ * @param {string} rawValue - The text to write after the `=` (default: the formatted value)
+ */
+export function updateEnvEntry(
+	entry: EnvEntry,
+	value: string,
+	rawValue: string = formatEnvValue(value, entry.quote),
+): void {
+	let head = /^[^=]*=\s*/.exec(entry.raw)?.[0] ?? `${entry.key}=`;
+	let suffix = entry.suffix ?? "";
+	if (entry.raw === `${head}${suffix}` && suffix.startsWith("#")) {
+		// With no value, the spacing after `=` separates the comment
+		const spacing = /\s*$/.exec(head)![0];
+		head = head.slice(0, head.length - spacing.length);
+		suffix = `${spacing || " "}${suffix}`;
+	}
+	const quote = rawValue[0];
+	entry.value = value;
+	entry.raw = `${head}${rawValue}${suffix}`;
+	entry.quote =
+		quote === '"' || quote === "'" || quote === "`" ? quote : undefined;
+}
+
+/**
+ * Set a variable, updating its last definition in place or appending it
+ * before any trailing blank lines
+ * @param {EnvDocument} document - The document to update
+ * @param {string} key - The variable name
+ * @param {string} value - The new value
+ * @param {EnvQuote} quote - The quotes to write the value with (default: those of the
+ * current definition, or none if they are not needed)
+ * @throws {Error} If the key is not a valid variable name
+ */
+export function setEnvValue(
+	document: EnvDocument,
+	key: string,
+	value: string,
+	quote?: EnvQuote,
+): void {
+	const existing = document.lines.filter(
+		(line): line is EnvEntry => line.type === "entry" && line.key === key,
+	);
+	const last = existing[existing.length - 1];
+	if (last) {
+		updateEnvEntry(last, value, formatEnvValue(value, quote ?? last.quote));
+		return;
+	}
+
+	if (!/^[A-Za-z_][A-Za-z0-9_.-]*$/.test(key)) {
+		throw new Error(`Invalid variable name "${key}"`);
+	}
+
+	let index = document.lines.length;
+	while (index > 0 && document.lines[index - 1]!.raw.trim() === "") {
+		index--;
+	}
+	const entry: EnvEntry = { type: "entry", key, value, raw: "" };
+	updateEnvEntry(entry, value, formatEnvValue(value, quote));
+	document.lines.splice(index, 0, entry);
+}
+
+/**
+ * Remove every definition of a variable
+ * @param {EnvDocument} document - The document to update
+ * @param {string} key - The variable name
+ * @returns {boolean} Whether the variable was defined
+ */
+export function unsetEnvValue(document: EnvDocument, key: string): boolean {
+	const count = document.lines.length;
+	document.lines = document.lines.filter(
+		(line) => line.type !== "entry" || line.key !== key,
+	);
+	return document.lines.length !== count;
+}
@@ -5,10 +5,25 @@
 import {
 	createCipheriv,
 	createDecipheriv,
+	hkdfSync,
 	randomBytes,
 	scryptSync,
 } from "node:crypto";
 import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import {
+	expandEnvValues,
+	formatEnvValue,
+	parseEnvDocument,
+	stringifyEnvDocument,
+	updateEnvEntry,
+} from "./dotenv";
+import {
+	formatRecipientHeader,
+	loadIdentity,
+	splitRecipientHeader,
+	unwrapDataKey,
+	wrapDataKey,
+} from "./recipients";
 
 /**
  * Default name for the master key file
@@ -23,61 +38,454 @@ export function generateMasterKey(): Buffer {
 	return randomBytes(32); // 256 bits
 }
 
+/**
+ * Environment variable holding the passphrase of a protected master key file
+ */
+export const PASSPHRASE_ENV_VAR = "SUPER_ENV_PASSPHRASE";
+
+/**
+ * scrypt parameters used when protecting a master key with a passphrase
+ */
+const PASSPHRASE_KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * A master key encrypted under a passphrase-derived key, as stored on disk
+ */
+interface ProtectedMasterKey {
+	version: 1;
+	kdf: "scrypt";
+	N: number;
+	r: number;
+	p: number;
+	salt: string;
+	nonce: string;
+	tag: string;
+	ciphertext: string;
+}
+
+/**
+ * Derive the key protecting a master key from a passphrase
+ * @param {string} passphrase - The passphrase
+ * @param {Buffer} salt - The random salt
+ * @param {{ N: number; r: number; p: number }} params - The scrypt parameters
+ */
+function derivePassphraseKey(
+	passphrase: string,
+	salt: Buffer,
+	params: { N: number; r: number; p: number },
+): Buffer {
+	const { N, r, p } = params;
+	return scryptSync(passphrase, salt, 32, { N, r, p, maxmem: 256 * N * r });
+}
+
+/**
+ * Encrypt a master key under a passphrase
+ * @param {Buffer} key - The master key
+ * @param {string} passphrase - The passphrase
+ * @returns {string} The protected key file contents
+ */
+export function protectMasterKey(key: Buffer, passphrase: string): string {
+	const salt = randomBytes(SALT_LENGTH);
+	const nonce = randomBytes(NONCE_LENGTH);
+	const cipher = createCipheriv(
+		CIPHER_ALGORITHM,
+		derivePassphraseKey(passphrase, salt, PASSPHRASE_KDF_PARAMS),
+		nonce,
+	);
+	const ciphertext = Buffer.concat([cipher.update(key), cipher.final()]);
+
+	const protectedKey: ProtectedMasterKey = {
+		version: 1,
+		kdf: "scrypt",
+		...PASSPHRASE_KDF_PARAMS,
+		salt: salt.toString("base64"),
+		nonce: nonce.toString("base64"),
+		tag: cipher.getAuthTag().toString("base64"),
+		ciphertext: ciphertext.toString("base64"),
+	};
+	return `${JSON.stringify(protectedKey, null, 2)}\n`;
+}
+
+/**
+ * Parse the contents of a key file if it is passphrase-protected
+ * @param {Buffer} data - The key file contents
+ * @returns {ProtectedMasterKey | undefined} The protected key, or undefined for a raw key
+ */
+function parseProtectedMasterKey(data: Buffer): ProtectedMasterKey | undefined {
+	// Raw keys are always exactly 32 bytes
+	if (data.length === 32) {
+		return undefined;
+	}
+	try {
+		const parsed = JSON.parse(data.toString("utf8"));
+		return parsed?.kdf === "scrypt" ? parsed : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Decrypt a master key protected by a passphrase
+ * @param {string} protectedKey - The protected key file contents
+ * @param {string} passphrase - The passphrase
+ * @returns {Buffer} The master key
+ * @throws {Error} If the passphrase is incorrect
+ */
+export function unprotectMasterKey(
+	protectedKey: string,
+	passphrase: string,
+): Buffer {
+	const parsed = parseProtectedMasterKey(Buffer.from(protectedKey, "utf8"));
+	if (!parsed) {
+		throw new Error("Invalid protected master key format");
+	}
+
+	const decipher = createDecipheriv(
+		CIPHER_ALGORITHM,
+		derivePassphraseKey(passphrase, Buffer.from(parsed.salt, "base64"), parsed),
+		Buffer.from(parsed.nonce, "base64"),
+	);
+	decipher.setAuthTag(Buffer.from(parsed.tag, "base64"));
+
+	try {
+		return Buffer.concat([
+			decipher.update(Buffer.from(parsed.ciphertext, "base64")),
+			decipher.final(),
+		]);
+	} catch {
+		throw new Error("Incorrect passphrase for the master key");
+	}
+}
+
+/**
+ * Check whether a master key file is protected by a passphrase
+ * @param {string} filePath - Path to the key file (default: MASTER_KEY.key)
+ * @returns {boolean} True if the key file is passphrase-protected
+ */
+export function isPassphraseProtected(
+	filePath: string = MASTER_KEY_FILENAME,
+): boolean {
+	return (
+		existsSync(filePath) &&
+		parseProtectedMasterKey(readFileSync(filePath)) !== undefined
+	);
+}
+
 /**
  * Save the master key to a file
  * @param {Buffer} key - The master key to save
  * @param {string} filePath - Path to save the key file (default: MASTER_KEY.key)
+ * @param {{ passphrase?: string }} options - Set a passphrase to store the key encrypted under it
  */
 export function saveMasterKey(
 	key: Buffer,
 	filePath: string = MASTER_KEY_FILENAME,
+	options: { passphrase?: string } = {},
 ): void {
-	writeFileSync(filePath, key);
+	writeFileSync(
+		filePath,
+		options.passphrase ? protectMasterKey(key, options.passphrase) : key,
+	);
 }
 
 /**
  * Load the master key from a file
  * @param {string} filePath - Path to the key file (default: MASTER_KEY.key)
+ * @param {{ passphrase?: string }} options - The passphrase of a protected key file (default: $SUPER_ENV_PASSPHRASE)
  * @returns {Buffer} The loaded key
- * @throws {Error} If the key file does not exist
+ * @throws {Error} If the key file does not exist, or is protected and no correct passphrase is given
  */
-export function loadMasterKey(filePath: string = MASTER_KEY_FILENAME): Buffer {
+export function loadMasterKey(
+	filePath: string = MASTER_KEY_FILENAME,
+	options: { passphrase?: string } = {},
+): Buffer {
 	if (!existsSync(filePath)) {
 		throw new Error(`Master key file not found: ${filePath}`);
 	}
-	return readFileSync(filePath);
+
+	const data = readFileSync(filePath);
+	if (!parseProtectedMasterKey(data)) {
+		return data;
+	}
+
+	const passphrase = options.passphrase ?? process.env[PASSPHRASE_ENV_VAR];
+	if (!passphrase) {
+		throw new Error(
+			`Master key file ${filePath} is protected by a passphrase: set $${PASSPHRASE_ENV_VAR} or enter it when prompted`,
+		);
+	}
+	return unprotectMasterKey(data.toString("utf8"), passphrase);
 }
 
 /**
- * Encrypt a string using the master key
+ * Environment variable holding a base64 or hex encoded master key
+ */
+export const MASTER_KEY_ENV_VAR = "SUPER_ENV_MASTER_KEY";
+
+/**
+ * Where to look for the master key
+ */
+export interface MasterKeyOptions {
+	/**
+	 * An explicit master key, as raw bytes or base64/hex encoded
+	 */
+	key?: Buffer | string;
+
+	/**
+	 * Path to the master key file
+	 * @default "MASTER_KEY.key"
+	 */
+	keyFilePath?: string;
+
+	/**
+	 * Passphrase of a protected key file
+	 * @default $SUPER_ENV_PASSPHRASE
+	 */
+	passphrase?: string;
+
+	/**
+	 * Path to the personal identity file, used for files encrypted for recipients
+	 * @default $SUPER_ENV_IDENTITY, then ~/.super-env/identity.key
+	 */
+	identityFilePath?: string;
+}
+
+/**
+ * Decode a base64 or hex encoded master key
+ * @param {string} encodedKey - The encoded key
+ * @param {string} source - Where the key came from, used in error messages
+ * @returns {Buffer} The decoded key
+ * @throws {Error} If the key is not a valid 256-bit key
+ */
+export function parseMasterKey(encodedKey: string, source: string): Buffer {
+	const text = encodedKey.trim();
+	const key = /^[0-9a-fA-F]{64}$/.test(text)
+		? Buffer.from(text, "hex")
+		: Buffer.from(text, "base64");
+
+	if (key.length !== 32) {
+		throw new Error(
+			`Invalid master key from ${source}: expected 32 bytes encoded as base64 or hex`,
+		);
+	}
+	return key;
+}
+
+/**
+ * Resolve the master key from, in order: an explicit key, the
+ * SUPER_ENV_MASTER_KEY environment variable, then the key file
+ * @param {MasterKeyOptions} options - Where to look for the master key
+ * @returns {Buffer} The master key
+ * @throws {Error} If no source provides a key, naming every source checked
+ */
+export function resolveMasterKey(options: MasterKeyOptions = {}): Buffer {
+	const keyFilePath = options.keyFilePath || MASTER_KEY_FILENAME;
+
+	if (options.key !== undefined) {
+		return Buffer.isBuffer(options.key)
+			? options.key
+			: parseMasterKey(options.key, "the provided key");
+	}
+
+	const envKey = process.env[MASTER_KEY_ENV_VAR];
+	if (envKey) {
+		return parseMasterKey(envKey, `$${MASTER_KEY_ENV_VAR}`);
+	}
+
+	if (existsSync(keyFilePath)) {
+		return loadMasterKey(keyFilePath, { passphrase: options.passphrase });
+	}
+
+	throw new Error(
+		[
+			"No master key found. Checked:",
+			"  - explicit key: not provided",
+			`  - $${MASTER_KEY_ENV_VAR}: not set`,
+			`  - key file ${keyFilePath}: not found`,
+		].join("\n"),
+	);
+}
+
+/**
+ * Normalize a key file path or key options
+ * @param {string | MasterKeyOptions} masterKey - Key file path or key options
+ * @returns {MasterKeyOptions} The key options
+ */
+function toMasterKeyOptions(
+	masterKey: string | MasterKeyOptions,
+): MasterKeyOptions {
+	return typeof masterKey === "string" ? { keyFilePath: masterKey } : masterKey;
+}
+
+/**
+ * Resolve the key that decrypts the given encrypted contents: the data key
+ * unwrapped with the personal identity for files encrypted for recipients,
+ * the master key otherwise
+ * @param {string} encryptedContent - The encrypted contents
+ * @param {string | MasterKeyOptions} masterKey - Key file path or key options
+ * @returns {Buffer} The key
+ */
+export function resolveContentKey(
+	encryptedContent: string,
+	masterKey: string | MasterKeyOptions = MASTER_KEY_FILENAME,
+): Buffer {
+	const options = toMasterKeyOptions(masterKey);
+	const { stanzas } = splitRecipientHeader(encryptedContent);
+	if (stanzas.length > 0) {
+		return unwrapDataKey(stanzas, loadIdentity(options.identityFilePath));
+	}
+	return resolveMasterKey(options);
+}
+
+/**
+ * Version header of the current encrypted format
+ */
+export const ENCRYPTION_FORMAT_VERSION = "v2";
+
+const CIPHER_ALGORITHM = "aes-256-gcm";
+const SALT_LENGTH = 16;
+const NONCE_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Derive the cipher key for a single payload from the master key and its salt
+ * @param {Buffer} masterKey - The master key
+ * @param {Buffer} salt - The random salt stored alongside the payload
+ * @returns {Buffer} The derived 256-bit key
+ */
+function deriveKey(masterKey: Buffer, salt: Buffer): Buffer {
+	return Buffer.from(hkdfSync("sha256", masterKey, salt, "super-env", 32));
+}
+
+/**
+ * Encrypt and authenticate a string with AES-256-GCM
  * @param {string} text - The text to encrypt
  * @param {Buffer} masterKey - The master key for encryption
- * @returns {string} The encrypted text in base64 format
+ * @param {string} aad - Additional data bound to the ciphertext (the format header)
+ * @returns {string} The payload in the format salt:nonce:tag:ciphertext (base64)
  */
-export function encrypt(text: string, masterKey: Buffer): string {
-	// Generate a random initialization vector
-	const iv = randomBytes(16);
+function sealPayload(text: string, masterKey: Buffer, aad: string): string {
+	const salt = randomBytes(SALT_LENGTH);
+	const nonce = randomBytes(NONCE_LENGTH);
 
-	// Create a cipher using the master key and iv
-	const key = scryptSync(masterKey, "salt", 32);
-	const cipher = createCipheriv("aes-256-cbc", key, iv);
+	const cipher = createCipheriv(
+		CIPHER_ALGORITHM,
+		deriveKey(masterKey, salt),
+		nonce,
+	);
+	cipher.setAAD(Buffer.from(aad, "utf8"));
 
-	// Encrypt the text
-	let encrypted = cipher.update(text, "utf8", "base64");
-	encrypted += cipher.final("base64");
+	const ciphertext = Buffer.concat([
+		cipher.update(text, "utf8"),
+		cipher.final(),
+	]);
+	const tag = cipher.getAuthTag();
 
-	// Prepend the iv to the encrypted text (we'll need it for decryption)
-	// Format: iv:encrypted
-	return `${iv.toString("base64")}:${encrypted}`;
+	return [salt, nonce, tag, ciphertext]
+		.map((part) => part.toString("base64"))
+		.join(":");
 }
 
 /**
- * Decrypt a string using the master key
- * @param {string} encryptedText - The encrypted text to decrypt (format: iv:encrypted)
+ * Verify and decrypt a payload produced by sealPayload
+ * @param {string} payload - The payload in the format salt:nonce:tag:ciphertext
  * @param {Buffer} masterKey - The master key for decryption
+ * @param {string} aad - Additional data the payload was bound to
  * @returns {string} The decrypted text
+ * @throws {Error} If the payload is malformed, tampered with or the key is wrong
  */
-export function decrypt(encryptedText: string, masterKey: Buffer): string {
+function openPayload(payload: string, masterKey: Buffer, aad: string): string {
+	const parts = payload.split(":");
+	// The ciphertext of an empty value is empty
+	if (parts.length !== 4 || parts.slice(0, 3).some((part) => part === "")) {
+		throw new Error("Invalid encrypted text format");
+	}
+
+	const [salt, nonce, tag, ciphertext] = parts.map((part) =>
+		Buffer.from(part, "base64"),
+	) as [Buffer, Buffer, Buffer, Buffer];
+	if (
+		salt.length !== SALT_LENGTH ||
+		nonce.length !== NONCE_LENGTH ||
+		tag.length !== AUTH_TAG_LENGTH
+	) {
+		throw new Error("Invalid encrypted text format");
+	}
+
+	const decipher = createDecipheriv(
+		CIPHER_ALGORITHM,
+		deriveKey(masterKey, salt),
+		nonce,
+	);
+	decipher.setAAD(Buffer.from(aad, "utf8"));
+	decipher.setAuthTag(tag);
+
+	try {
+		return Buffer.concat([
+			decipher.update(ciphertext),
+			decipher.final(),
+		]).toString("utf8");
+	} catch {
+		throw new Error(
+			"Decryption failed: the master key is wrong or the encrypted data has been tampered with",
+		);
+	}
+}
+
+/**
+ * The shape of the legacy format: base64 iv and ciphertext without a version header
+ */
+const LEGACY_FORMAT_PATTERN = /^[A-Za-z0-9+/]+={0,2}:[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * A version header, current or not (e.g. "v2:" or "v3:")
+ */
+const VERSION_HEADER_PATTERN = /^v(\d+):/;
+
+/**
+ * Check whether encrypted text uses the legacy unauthenticated format
+ * @param {string} encryptedText - The encrypted text to inspect
+ * @returns {boolean} True if the text should be migrated to the current format
+ */
+export function isLegacyFormat(encryptedText: string): boolean {
+	return LEGACY_FORMAT_PATTERN.test(encryptedText.trim());
+}
+
+/**
+ * Check that encrypted text starts with the current version header
+ * @param {string} text - The encrypted text (not in the legacy format)
+ * @throws {Error} If the header is missing or of a version this release does not know
+ */
+function assertCurrentVersion(text: string): void {
+	const version = VERSION_HEADER_PATTERN.exec(text)?.[1];
+	if (version === undefined) {
+		throw new Error("Invalid encrypted text format");
+	}
+	if (`v${version}` !== ENCRYPTION_FORMAT_VERSION) {
+		throw new Error(
+			`Unsupported format version v${version}: upgrade super-env to decrypt this file`,
+		);
+	}
+}
+
+/**
+ * Encrypt a string using the master key
+ * @param {string} text - The text to encrypt
+ * @param {Buffer} masterKey - The master key for encryption
+ * @returns {string} The encrypted text (format: v2:salt:nonce:tag:ciphertext)
+ */
+export function encrypt(text: string, masterKey: Buffer): string {
+	const header = ENCRYPTION_FORMAT_VERSION;
+	return `${header}:${sealPayload(text, masterKey, header)}`;
+}
+
+/**
+ * Decrypt a legacy AES-256-CBC string (format: iv:encrypted)
+ * @param {string} encryptedText - The encrypted text to decrypt
+ * @param {Buffer} masterKey - The master key for decryption
+ * @returns {string} The decrypted text
+ */
+function decryptLegacy(encryptedText: string, masterKey: Buffer): string {
 	// Split the encrypted text into iv and encrypted parts
 	const [ivBase64, encrypted] = encryptedText.split(":");
 	if (!ivBase64 || !encrypted) {
@@ -98,50 +506,443 @@ export function decrypt(encryptedText: string, masterKey: Buffer): string {
 	return decrypted;
 }
 
+/**
+ * Decrypt a string using the master key
+ * @param {string} encryptedText - The encrypted text to decrypt (current or legacy format)
+ * @param {Buffer} masterKey - The master key for decryption
+ * @returns {string} The decrypted text
+ * @throws {Error} If the text is malformed, tampered with or the key is wrong
+ */
+export function decrypt(encryptedText: string, masterKey: Buffer): string {
+	const text = encryptedText.trim();
+
+	if (isLegacyFormat(text)) {
+		return decryptLegacy(text, masterKey);
+	}
+
+	assertCurrentVersion(text);
+	const header = ENCRYPTION_FORMAT_VERSION;
+	return openPayload(text.slice(header.length + 1), masterKey, header);
+}
+
+/**
+ * Prefix of values encrypted individually in per-value mode
+ */
+export const VALUE_ENCRYPTION_PREFIX = "enc:v1:";
+
+/**
+ * How a .env file is encrypted:
+ * - `file`: the whole file is encrypted as a single blob
+ * - `value`: the file stays a .env file with readable keys and each value encrypted separately
+ */
+export type EncryptionMode = "file" | "value";
+
+/**
+ * Supported encryption modes
+ */
+export const ENCRYPTION_MODES: EncryptionMode[] = ["file", "value"];
+
+/**
+ * Options for encrypting .env contents
+ */
+export interface EncryptEnvOptions {
+	/**
+	 * The encryption mode
+	 * @default "file", or the mode of the previous encrypted contents
+	 */
+	mode?: EncryptionMode;
+
+	/**
+	 * The previous encrypted contents; in per-value mode, values that did not
+	 * change keep their ciphertext so diffs only show changed keys
+	 */
+	previous?: string;
+}
+
+/**
+ * Check whether a .env value is encrypted individually
+ * @param {string} value - The value to check
+ * @returns {boolean} True if the value is encrypted
+ */
+export function isEncryptedValue(value: string): boolean {
+	return value.startsWith(VALUE_ENCRYPTION_PREFIX);
+}
+
+/**
+ * Encrypt a single .env value
+ * @param {string} value - The value to encrypt
+ * @param {Buffer} masterKey - The master key for encryption
+ * @param {string} name - The variable name, bound to the ciphertext so it cannot be moved to another variable
+ * @returns {string} The encrypted value (format: enc:v1:salt:nonce:tag:ciphertext)
+ */
+export function encryptValue(
+	value: string,
+	masterKey: Buffer,
+	name: string,
+): string {
+	return `${VALUE_ENCRYPTION_PREFIX}${sealPayload(value, masterKey, `${VALUE_ENCRYPTION_PREFIX}${name}`)}`;
+}
+
+/**
+ * Decrypt a single .env value
+ * @param {string} encryptedValue - The encrypted value
+ * @param {Buffer} masterKey - The master key for decryption
+ * @param {string} name - The variable name the value was encrypted for
+ * @returns {string} The decrypted value
+ * @throws {Error} If the value was encrypted for another variable or tampered with
+ */
+export function decryptValue(
+	encryptedValue: string,
+	masterKey: Buffer,
+	name: string,
+): string {
+	if (!isEncryptedValue(encryptedValue)) {
+		throw new Error("Invalid encrypted value format");
+	}
+	return openPayload(
+		encryptedValue.slice(VALUE_ENCRYPTION_PREFIX.length),
+		masterKey,
+		`${VALUE_ENCRYPTION_PREFIX}${name}`,
+	);
+}
+
+/**
+ * Detect how encrypted .env contents were encrypted
+ * @param {string} encryptedContent - The encrypted contents
+ * @returns {EncryptionMode} The encryption mode
+ */
+export function detectEncryptionMode(encryptedContent: string): EncryptionMode {
+	const text = splitRecipientHeader(encryptedContent).body.trim();
+	if (VERSION_HEADER_PATTERN.test(text) || LEGACY_FORMAT_PATTERN.test(text)) {
+		return "file";
+	}
+	return "value";
+}
+
+/**
+ * Collect the ciphertext of every value in per-value encrypted contents that
+ * still decrypts with the given key
+ * @param {string} encryptedContent - The encrypted contents
+ * @param {Buffer} masterKey - The master key
+ * @returns {Map<string, { value: string; encrypted: string }>} Values by key
+ */
+function readEncryptedValues(
+	encryptedContent: string,
+	masterKey: Buffer,
+): Map<string, { value: string; encrypted: string }> {
+	const values = new Map<string, { value: string; encrypted: string }>();
+	for (const line of parseEnvDocument(encryptedContent).lines) {
+		if (line.type !== "entry" || !isEncryptedValue(line.value)) {
+			continue;
+		}
+		try {
+			values.set(line.key, {
+				value: decryptValue(line.value, masterKey, line.key),
+				encrypted: line.value,
+			});
+		} catch {
+			// Values from another key are simply re-encrypted
+		}
+	}
+	return values;
+}
+
+/**
+ * Encrypt the contents of a .env file
+ * @param {string} content - The plaintext .env contents
+ * @param {Buffer} masterKey - The master key for encryption
+ * @param {EncryptEnvOptions} options - Encryption options
+ * @returns {string} The encrypted contents
+ */
+export function encryptEnvContent(
+	content: string,
+	masterKey: Buffer,
+	options: EncryptEnvOptions = {},
+): string {
+	const mode =
+		options.mode ??
+		(options.previous ? detectEncryptionMode(options.previous) : "file");
+
+	if (mode === "file") {
+		return encrypt(content, masterKey);
+	}
+
+	const previousValues =
+		options.previous && detectEncryptionMode(options.previous) === "value"
+			? readEncryptedValues(options.previous, masterKey)
+			: new Map<string, { value: string; encrypted: string }>();
+
+	const document = parseEnvDocument(content);
+	for (const line of document.lines) {
+		if (line.type !== "entry" || isEncryptedValue(line.value)) {
+			continue;
+		}
+
+		const previous = previousValues.get(line.key);
+		const encrypted =
+			previous?.value === line.value
+				? previous.encrypted
+				: encryptValue(line.value, masterKey, line.key);
+		// The quotes stay around the ciphertext so decrypting restores them
+		const quote = line.quote ?? "";
+		updateEnvEntry(line, encrypted, `${quote}${encrypted}${quote}`);
+	}
+
+	return stringifyEnvDocument(document);
+}
+
+/**
+ * Decrypt the contents of an encrypted .env file, whatever its encryption mode
+ * @param {string} encryptedContent - The encrypted contents
+ * @param {Buffer} masterKey - The master key, or the data key for files encrypted for recipients
+ * @returns {string} The plaintext .env contents
+ */
+export function decryptEnvContent(
+	encryptedContent: string,
+	masterKey: Buffer,
+): string {
+	const { body } = splitRecipientHeader(encryptedContent);
+	if (detectEncryptionMode(body) === "file") {
+		return decrypt(body, masterKey);
+	}
+
+	// Every value must be encrypted, so entries cannot be injected in plaintext
+	const document = parseEnvDocument(body);
+	for (const line of document.lines) {
+		if (line.type !== "entry") {
+			continue;
+		}
+		if (!isEncryptedValue(line.value)) {
+			throw new Error(`${line.key} is not encrypted`);
+		}
+
+		let value: string;
+		try {
+			value = decryptValue(line.value, masterKey, line.key);
+		} catch (error) {
+			throw new Error(
+				`${line.key}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+		// Single-quoted and backquoted values are written back verbatim
+		const quote = line.quote ?? "";
+		updateEnvEntry(
+			line,
+			value,
+			quote === '"' ? formatEnvValue(value, quote) : `${quote}${value}${quote}`,
+		);
+	}
+
+	return stringifyEnvDocument(document);
+}
+
+/**
+ * Options for encrypting a .env file
+ */
+export interface EncryptEnvFileOptions {
+	/**
+	 * The encryption mode
+	 * @default the mode of the existing output file, or "file"
+	 */
+	mode?: EncryptionMode;
+
+	/**
+	 * Public keys to encrypt the file for instead of the master key. When not
+	 * set and the existing output is encrypted for recipients, its recipients
+	 * are kept.
+	 */
+	recipients?: string[];
+}
+
+/**
+ * Read and decrypt an encrypted .env file in memory
+ * @param {string} filePath - Path to the encrypted .env file
+ * @param {string | MasterKeyOptions} masterKey - Master key file path or key options
+ * @returns {string} The plaintext .env contents
+ */
+export function readEncryptedEnvFile(
+	filePath: string,
+	masterKey: string | MasterKeyOptions = MASTER_KEY_FILENAME,
+): string {
+	const encryptedContent = readFileSync(filePath, "utf8");
+	return decryptEnvContent(
+		encryptedContent,
+		resolveContentKey(encryptedContent, masterKey),
+	);
+}
+
+/**
+ * Read, decrypt and parse an encrypted .env file in memory, without writing
+ * the plaintext to disk. `${VAR}` references are expanded.
+ * @param {string} filePath - Path to the encrypted .env file
+ * @param {string | MasterKeyOptions} masterKey - Master key file path or key options
+ * @returns {Record<string, string>} The variables defined in the file
+ */
+export function readEncryptedEnvValues(
+	filePath: string,
+	masterKey: string | MasterKeyOptions = MASTER_KEY_FILENAME,
+): Record<string, string> {
+	return expandEnvValues(
+		parseEnvDocument(readEncryptedEnvFile(filePath, masterKey)),
+	);
+}
+
+/**
+ * Encrypt plaintext .env contents and write them to a file, reusing unchanged
+ * values and the recipients of the existing file
+ * @param {string} filePath - Path to the encrypted .env file
+ * @param {string} content - The plaintext .env contents
+ * @param {string | MasterKeyOptions} masterKey - Master key file path or key options
+ * @param {EncryptEnvFileOptions} options - Encryption options
+ */
+export function writeEncryptedEnvFile(
+	filePath: string,
+	content: string,
+	masterKey: string | MasterKeyOptions = MASTER_KEY_FILENAME,
+	options: EncryptEnvFileOptions = {},
+): void {
+	const keyOptions = toMasterKeyOptions(masterKey);
+	const previous = existsSync(filePath)
+		? splitRecipientHeader(readFileSync(filePath, "utf8"))
+		: undefined;
+
+	let key: Buffer;
+	let header = "";
+	if (options.recipients) {
+		// Keep the data key when possible so unchanged values keep their ciphertext
+		key = generateMasterKey();
+		if (previous?.stanzas.length) {
+			try {
+				key = unwrapDataKey(
+					previous.stanzas,
+					loadIdentity(keyOptions.identityFilePath),
+				);
+			} catch {
+				// Not a recipient of the previous file: start with a new data key
+			}
+		}
+		header = formatRecipientHeader(wrapDataKey(key, options.recipients));
+	} else if (previous?.stanzas.length) {
+		key = unwrapDataKey(
+			previous.stanzas,
+			loadIdentity(keyOptions.identityFilePath),
+		);
+		header = formatRecipientHeader(previous.stanzas);
+	} else {
+		key = resolveMasterKey(keyOptions);
+	}
+
+	const encrypted = encryptEnvContent(content, key, {
+		mode: options.mode,
+		previous: previous?.body,
+	});
+	writeFileSync(filePath, `${header}${encrypted}`);
+}
+
+/**
+ * Change the recipients of an encrypted .env file. Files already encrypted for
+ * recipients only get their data key re-wrapped, leaving the values untouched;
+ * files encrypted with the master key are converted to a new data key.
+ * @param {string} filePath - Path to the encrypted .env file
+ * @param {string[]} recipients - The public keys of the new recipients
+ * @param {string | MasterKeyOptions} masterKey - Master key file path or key options
+ * @param {{ rotateDataKey?: boolean }} options - Set rotateDataKey to re-encrypt the values with a new data key
+ */
+export function setEnvFileRecipients(
+	filePath: string,
+	recipients: string[],
+	masterKey: string | MasterKeyOptions = MASTER_KEY_FILENAME,
+	options: { rotateDataKey?: boolean } = {},
+): void {
+	if (recipients.length === 0) {
+		throw new Error("An encrypted file needs at least one recipient");
+	}
+
+	const encryptedContent = readFileSync(filePath, "utf8");
+	const { stanzas, body } = splitRecipientHeader(encryptedContent);
+	const key = resolveContentKey(encryptedContent, masterKey);
+
+	if (stanzas.length > 0 && !options.rotateDataKey) {
+		writeFileSync(
+			filePath,
+			`${formatRecipientHeader(wrapDataKey(key, recipients))}${body}`,
+		);
+		return;
+	}
+
+	const dataKey = generateMasterKey();
+	const encrypted = encryptEnvContent(decryptEnvContent(body, key), dataKey, {
+		mode: detectEncryptionMode(body),
+	});
+	writeFileSync(
+		filePath,
+		`${formatRecipientHeader(wrapDataKey(dataKey, recipients))}${encrypted}`,
+	);
+}
+
 /**
  * Encrypt a .env file
  * @param {string} inputFilePath - Path to the .env file to encrypt
  * @param {string} outputFilePath - Path to save the encrypted .env file
- * @param {string} keyFilePath - Path to the master key file
+ * @param {string | MasterKeyOptions} masterKey - Master key file path or key options
+ * @param {EncryptEnvFileOptions} options - Encryption options
  */
 export function encryptEnvFile(
 	inputFilePath = ".env",
 	outputFilePath = ".env.enc",
-	keyFilePath: string = MASTER_KEY_FILENAME,
+	masterKey: string | MasterKeyOptions = MASTER_KEY_FILENAME,
+	options: EncryptEnvFileOptions = {},
 ): void {
-	// Load the master key
-	const masterKey = loadMasterKey(keyFilePath);
-
 	// Read the .env file
 	const envContent = readFileSync(inputFilePath, "utf8");
 
-	// Encrypt the content
-	const encrypted = encrypt(envContent, masterKey);
-
-	// Save the encrypted content to the output file
-	writeFileSync(outputFilePath, encrypted);
+	// Encrypt the content, reusing unchanged values from the existing output
+	writeEncryptedEnvFile(outputFilePath, envContent, masterKey, options);
 }
 
 /**
  * Decrypt a .env file
  * @param {string} inputFilePath - Path to the encrypted .env file
  * @param {string} outputFilePath - Path to save the decrypted .env file
- * @param {string} keyFilePath - Path to the master key file
+ * @param {string | MasterKeyOptions} masterKey - Master key file path or key options
  */
 export function decryptEnvFile(
 	inputFilePath = ".env.enc",
 	outputFilePath = ".env",
-	keyFilePath: string = MASTER_KEY_FILENAME,
+	masterKey: string | MasterKeyOptions = MASTER_KEY_FILENAME,
 ): void {
-	// Load the master key
-	const masterKey = loadMasterKey(keyFilePath);
-
-	// Read the encrypted .env file
-	const encryptedContent = readFileSync(inputFilePath, "utf8");
-
-	// Decrypt the content
-	const decrypted = decrypt(encryptedContent, masterKey);
+	// Read and decrypt the encrypted .env file
+	const decrypted = readEncryptedEnvFile(inputFilePath, masterKey);
 
 	// Save the decrypted content to the output file
 	writeFileSync(outputFilePath, decrypted);
 }
+
+/**
+ * Re-encrypt a legacy encrypted .env file in the current format
+ * @param {string} filePath - Path to the encrypted .env file
+ * @param {string | MasterKeyOptions} masterKey - Master key file path or key options
+ * @returns {boolean} True if the file was migrated, false if it was already current
+ */
+export function migrateEnvFile(
+	filePath = ".env.enc",
+	masterKey: string | MasterKeyOptions = MASTER_KEY_FILENAME,
+): boolean {
+	const encryptedContent = readFileSync(filePath, "utf8");
+	if (
+		splitRecipientHeader(encryptedContent).stanzas.length > 0 ||
+		detectEncryptionMode(encryptedContent) !== "file"
+	) {
+		return false;
+	}
+	if (!isLegacyFormat(encryptedContent)) {
+		assertCurrentVersion(encryptedContent.trim());
+		return false;
+	}
+
+	const key = resolveMasterKey(toMasterKeyOptions(masterKey));
+	const decrypted = decrypt(encryptedContent, key);
+	writeFileSync(filePath, encrypt(decrypted, key));
+
+	return true;
+}
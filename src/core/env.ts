@@ -2,20 +2,73 @@
  * Environment variables management with Zod for type safety
  */
 
-import { existsSync } from "node:fs";
-import dotenv from "dotenv";
+import { existsSync, readFileSync } from "node:fs";
 import type { z } from "zod";
+import { expandEnvValues, parseEnvDocument } from "./dotenv";
+import { readEncryptedEnvValues } from "./encryption";
+import { getEnvironmentPaths } from "./environments";
+import { EnvValidationError } from "./errors";
+import { formatEnvOrigins, getEnvFiles, resolveEnvFiles } from "./layers";
+import { getSecretKeys, protectSecrets } from "./secrets";
 
 /**
  * Configuration options for creating type-safe environment variables
  */
 export interface EnvOptions {
+	/**
+	 * The environment to load (e.g. "production" loads `.env.production`)
+	 */
+	environment?: string;
+
 	/**
 	 * The path to the .env file
-	 * @default ".env"
+	 * @default ".env", or `.env.[environment]` when an environment is set
 	 */
 	envFilePath?: string;
 
+	/**
+	 * The .env files to load, from lowest to highest precedence. Encrypted
+	 * files (ending in `.enc`) are decrypted in memory and missing files are
+	 * skipped. Set to true to load the default files for `environment`:
+	 * `.env.enc`, `.env`, `.env.local`, `.env.[environment].enc`,
+	 * `.env.[environment]` and `.env.[environment].local`. When set,
+	 * `envFilePath` is not loaded.
+	 */
+	envFiles?: string[] | boolean;
+
+	/**
+	 * Whether the loaded variables replace variables that are already set
+	 * in process.env
+	 * @default false
+	 */
+	override?: boolean;
+
+	/**
+	 * Log which file each variable loaded from `envFiles` came from
+	 * @default false
+	 */
+	debug?: boolean;
+
+	/**
+	 * The path to an encrypted .env file to decrypt in memory. When set, the
+	 * variables are decrypted and parsed without writing plaintext to disk,
+	 * and `envFilePath` is not loaded.
+	 */
+	encryptedEnvFilePath?: string;
+
+	/**
+	 * The path to the master key file used to decrypt `encryptedEnvFilePath`
+	 * (the SUPER_ENV_MASTER_KEY environment variable takes precedence)
+	 * @default "MASTER_KEY.key", or `MASTER_KEY.[environment].key`
+	 */
+	keyFilePath?: string;
+
+	/**
+	 * The variables to validate instead of process.env, e.g. where
+	 * process.env is not available
+	 */
+	runtimeEnv?: Record<string, string | undefined>;
+
 	/**
 	 * Whether to log validation errors
 	 * @default true
@@ -28,6 +81,19 @@ export interface EnvOptions {
 	 */
 	throwOnValidationFailure?: boolean;
 
+	/**
+	 * Called with the validation error instead of logging it, e.g. to send it
+	 * to your logger or error tracking. The error never contains the rejected
+	 * values.
+	 */
+	onValidationError?: (error: EnvValidationError) => void;
+
+	/**
+	 * Keys whose values are redacted when the env object is logged or
+	 * serialized, in addition to the fields marked with `secret()`
+	 */
+	secretKeys?: string[];
+
 	/**
 	 * Skip loading .env file (useful when environment variables are already loaded)
 	 * @default false
@@ -45,6 +111,38 @@ const defaultOptions: EnvOptions = {
 	skipEnvLoad: false,
 };
 
+/**
+ * Merge options with the defaults for the selected environment
+ * @param options - Configuration options
+ * @returns The merged options
+ */
+function mergeOptions(options: EnvOptions): EnvOptions {
+	return {
+		...defaultOptions,
+		...(options.environment && {
+			envFilePath: getEnvironmentPaths(options.environment).envFilePath,
+			keyFilePath: getEnvironmentPaths(options.environment).keyFilePath,
+		}),
+		...options,
+	};
+}
+
+/**
+ * Add variables to process.env
+ * @param variables - The variables to add
+ * @param override - Whether to replace variables that are already set
+ */
+export function populateProcessEnv(
+	variables: Record<string, string>,
+	override = false,
+): void {
+	for (const [key, value] of Object.entries(variables)) {
+		if (override || process.env[key] === undefined) {
+			process.env[key] = value;
+		}
+	}
+}
+
 /**
  * Create a type-safe environment object from a Zod schema
  * @param schema - Zod schema for environment variables
@@ -55,37 +153,70 @@ export function createEnv<T extends z.ZodType>(
 	schema: T,
 	options: EnvOptions = {},
 ): z.infer<T> {
-	const mergedOptions = { ...defaultOptions, ...options };
+	const mergedOptions = mergeOptions(options);
 
-	// Load variables from .env file if it exists and not skipped
-	if (
+	// Decrypt variables in memory, or load them from the .env files that
+	// exist, unless loading is skipped
+	if (!mergedOptions.skipEnvLoad && mergedOptions.encryptedEnvFilePath) {
+		populateProcessEnv(
+			readEncryptedEnvValues(mergedOptions.encryptedEnvFilePath, {
+				keyFilePath: mergedOptions.keyFilePath,
+			}),
+			mergedOptions.override,
+		);
+	} else if (!mergedOptions.skipEnvLoad && mergedOptions.envFiles) {
+		const { values, origins } = resolveEnvFiles(
+			mergedOptions.envFiles === true
+				? getEnvFiles(mergedOptions.environment)
+				: mergedOptions.envFiles,
+			// Each encrypted file uses the key of its own environment by default
+			{ keyFilePath: options.keyFilePath, override: mergedOptions.override },
+		);
+		populateProcessEnv(values, mergedOptions.override);
+		if (mergedOptions.debug) {
+			for (const line of formatEnvOrigins(origins)) {
+				console.log(`[super-env] ${line}`);
+			}
+		}
+	} else if (
 		!mergedOptions.skipEnvLoad &&
 		mergedOptions.envFilePath &&
 		existsSync(mergedOptions.envFilePath)
 	) {
-		dotenv.config({ path: mergedOptions.envFilePath });
+		populateProcessEnv(
+			expandEnvValues(
+				parseEnvDocument(readFileSync(mergedOptions.envFilePath, "utf8")),
+			),
+			mergedOptions.override,
+		);
 	}
 
 	// Validate the environment variables against the schema
-	const result = schema.safeParse(process.env);
+	const result = schema.safeParse(mergedOptions.runtimeEnv ?? process.env);
 
 	if (!result.success) {
-		if (mergedOptions.logValidationErrors) {
+		const error = new EnvValidationError(result.error.issues);
+		if (mergedOptions.onValidationError) {
+			mergedOptions.onValidationError(error);
+		} else if (mergedOptions.logValidationErrors) {
 			console.error("❌ Invalid environment variables:");
-			result.error.errors.forEach((error) => {
-				console.error(`- ${error.path.join(".")}: ${error.message}`);
-			});
+			for (const line of error.format()) {
+				console.error(`- ${line}`);
+			}
 		}
 
 		if (mergedOptions.throwOnValidationFailure) {
-			throw new Error("Environment variables validation failed");
+			throw error;
 		}
 
 		// Return an empty object if validation fails and we don't throw
 		return {} as z.infer<T>;
 	}
 
-	return result.data;
+	return protectSecrets(result.data, [
+		...getSecretKeys(schema),
+		...(mergedOptions.secretKeys ?? []),
+	]);
 }
 
 /**
@@ -113,7 +244,8 @@ export class Env<T extends z.ZodType> {
 
 	constructor(schema: T, options: EnvOptions = {}) {
 		this.schema = schema;
-		this.options = { ...defaultOptions, ...options };
+		// Merged by createEnv, which needs to know which options were given
+		this.options = options;
 	}
 
 	/**
@@ -0,0 +1,89 @@
+/**
+ * File naming for multiple environments (development, staging, production, ...)
+ */
+
+import { basename } from "node:path";
+import { MASTER_KEY_FILENAME } from "./encryption";
+
+/**
+ * The files used by a single environment
+ */
+export interface EnvironmentPaths {
+	/**
+	 * The plaintext .env file (e.g. `.env.production`)
+	 */
+	envFilePath: string;
+
+	/**
+	 * The encrypted .env file (e.g. `.env.production.enc`)
+	 */
+	encryptedEnvFilePath: string;
+
+	/**
+	 * The master key file (e.g. `MASTER_KEY.production.key`)
+	 */
+	keyFilePath: string;
+
+	/**
+	 * The public keys the encrypted file is shared with (e.g. `.env.production.recipients`)
+	 */
+	recipientsFilePath: string;
+}
+
+/**
+ * Check whether an environment name can safely be used in file names
+ * @param environment - The environment name
+ */
+export function isEnvironmentName(environment: string): boolean {
+	return /^[A-Za-z0-9][A-Za-z0-9_-]*$/.test(environment);
+}
+
+/**
+ * Check that an environment name can safely be used in file names
+ * @param environment - The environment name
+ * @throws {Error} If the name is invalid
+ */
+export function validateEnvironmentName(environment: string): void {
+	if (!isEnvironmentName(environment)) {
+		throw new Error(
+			`Invalid environment name "${environment}": use letters, digits, "-" and "_" only`,
+		);
+	}
+}
+
+/**
+ * Get the files used by an environment. Without an environment, the
+ * default `.env`, `.env.enc` and `MASTER_KEY.key` files are used.
+ * @param environment - The environment name (e.g. "production")
+ * @returns The paths for the environment
+ */
+export function getEnvironmentPaths(environment?: string): EnvironmentPaths {
+	if (!environment) {
+		return {
+			envFilePath: ".env",
+			encryptedEnvFilePath: ".env.enc",
+			keyFilePath: MASTER_KEY_FILENAME,
+			recipientsFilePath: ".env.recipients",
+		};
+	}
+
+	validateEnvironmentName(environment);
+	return {
+		envFilePath: `.env.${environment}`,
+		encryptedEnvFilePath: `.env.${environment}.enc`,
+		keyFilePath: MASTER_KEY_FILENAME.replace(/\.key$/, `.${environment}.key`),
+		recipientsFilePath: `.env.${environment}.recipients`,
+	};
+}
+
+/**
+ * Get the environment of an encrypted .env file from its name, e.g.
+ * "production" for `.env.production.enc`
+ * @param filePath - The encrypted file path
+ * @returns The environment name, or undefined for the default `.env.enc`
+ */
+export function getEnvironmentFromPath(filePath: string): string | undefined {
+	return /\.env\.([A-Za-z0-9][A-Za-z0-9_-]*)\.enc$/.exec(
+		basename(filePath),
+	)?.[1];
+}
@@ -0,0 +1,168 @@
+/**
+ * Errors reported when environment variables do not match their schema
+ */
+
+import { z } from "zod";
+
+/**
+ * Stands in for rejected values in redacted issues
+ */
+const REDACTED_VALUE = "[redacted]";
+
+/**
+ * Keep the fields of an issue that describe the schema, never the value:
+ * the code, the path and what was expected
+ * @param issue - The Zod issue
+ */
+function pickSchemaFields(issue: z.ZodIssue): z.ZodIssueOptionalMessage {
+	const { path } = issue;
+	switch (issue.code) {
+		case "invalid_type":
+			// The received type, such as "undefined" or "number", is not a value
+			return {
+				code: issue.code,
+				path,
+				expected: issue.expected,
+				received: issue.received,
+			};
+		case "invalid_literal":
+			return {
+				code: issue.code,
+				path,
+				expected: issue.expected,
+				received: REDACTED_VALUE,
+			};
+		case "invalid_enum_value":
+			return {
+				code: issue.code,
+				path,
+				options: issue.options,
+				received: REDACTED_VALUE,
+			};
+		case "invalid_union_discriminator":
+			return { code: issue.code, path, options: issue.options };
+		case "unrecognized_keys":
+			return { code: issue.code, path, keys: issue.keys };
+		case "invalid_string":
+			return { code: issue.code, path, validation: issue.validation };
+		case "too_small":
+			return {
+				code: issue.code,
+				path,
+				type: issue.type,
+				minimum: issue.minimum,
+				inclusive: issue.inclusive,
+				exact: issue.exact,
+			};
+		case "too_big":
+			return {
+				code: issue.code,
+				path,
+				type: issue.type,
+				maximum: issue.maximum,
+				inclusive: issue.inclusive,
+				exact: issue.exact,
+			};
+		case "not_multiple_of":
+			return { code: issue.code, path, multipleOf: issue.multipleOf };
+		case "invalid_union":
+			return { code: issue.code, path, unionErrors: [] };
+		case "invalid_arguments":
+			return { code: issue.code, path, argumentsError: new z.ZodError([]) };
+		case "invalid_return_type":
+			return {
+				code: issue.code,
+				path,
+				returnTypeError: new z.ZodError([]),
+			};
+		case "invalid_date":
+		case "invalid_intersection_types":
+		case "not_finite":
+		case "custom":
+			// Custom messages and params are written by hand and may quote the value
+			return { code: issue.code, path };
+	}
+}
+
+/**
+ * Rebuild an issue from its code, path and expected type only, so it can be
+ * logged or sent to error tracking without leaking secrets. The message is
+ * Zod's default message for those fields.
+ * @param issue - The Zod issue
+ * @returns The issue without the rejected value
+ */
+export function redactIssue(issue: z.ZodIssue): z.ZodIssue {
+	const redacted = pickSchemaFields(issue);
+	const { message } = z.defaultErrorMap(redacted, {
+		defaultError: "Invalid input",
+		data: undefined,
+	});
+	return { ...redacted, message };
+}
+
+/**
+ * Check whether an issue is about a variable that is not set
+ * @param issue - The Zod issue
+ */
+function isMissingIssue(issue: z.ZodIssue): boolean {
+	return issue.code === "invalid_type" && issue.received === "undefined";
+}
+
+/**
+ * Thrown when environment variables do not match their schema. The issues
+ * are grouped by variable and never contain the rejected values.
+ */
+export class EnvValidationError extends Error {
+	/**
+	 * The issues of variables that are not set, by variable name
+	 */
+	readonly missing: Record<string, z.ZodIssue[]>;
+
+	/**
+	 * The issues of variables whose value was rejected, by variable name
+	 * (refinements of the whole schema are under an empty name)
+	 */
+	readonly invalid: Record<string, z.ZodIssue[]>;
+
+	/**
+	 * All the issues, without the rejected values
+	 */
+	readonly issues: z.ZodIssue[];
+
+	constructor(issues: z.ZodIssue[]) {
+		const redacted = issues.map(redactIssue);
+		const missing: Record<string, z.ZodIssue[]> = {};
+		const invalid: Record<string, z.ZodIssue[]> = {};
+		for (const issue of redacted) {
+			const group = isMissingIssue(issue) ? missing : invalid;
+			const key = String(issue.path[0] ?? "");
+			group[key] = [...(group[key] ?? []), issue];
+		}
+
+		const names = (group: Record<string, z.ZodIssue[]>) =>
+			Object.keys(group)
+				.map((key) => key || "(schema)")
+				.join(", ");
+		const summary = [
+			Object.keys(missing).length > 0 && `missing ${names(missing)}`,
+			Object.keys(invalid).length > 0 && `invalid ${names(invalid)}`,
+		].filter(Boolean);
+		super(`Environment variables validation failed: ${summary.join("; ")}`);
+
+		this.name = "EnvValidationError";
+		this.missing = missing;
+		this.invalid = invalid;
+		this.issues = redacted;
+	}
+
+	/**
+	 * Get one line per issue, e.g. "DATABASE_URL: Required"
+	 */
+	format(): string[] {
+		return this.issues.map((issue) =>
+			issue.path.length > 0
+				? `${issue.path.join(".")}: ${issue.message}`
+				: issue.message,
+		);
+	}
+}
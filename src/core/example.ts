@@ -0,0 +1,87 @@
+/**
+ * Generation of .env.example files that are safe to commit
+ */
+
+import {
+	parseEnvDocument,
+	stringifyEnvDocument,
+	updateEnvEntry,
+} from "./dotenv";
+import { type EnvField, type EnvSchema, getSchemaFields } from "./schema";
+
+/**
+ * The default path of the example file
+ */
+export const EXAMPLE_FILENAME = ".env.example";
+
+/**
+ * The first line of generated example files
+ */
+const EXAMPLE_HEADER =
+	"# Generated by super-env example: fill in the values in your own .env";
+
+/**
+ * Comments that look like commented-out variables, which may hold real values
+ */
+const COMMENTED_ENTRY_PATTERN =
+	/^\s*#\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_.-]*\s*=/;
+
+/**
+ * Get the placeholder hint of a variable, e.g. "Port to listen on (number, default: 3000)"
+ * @param field - The variable
+ */
+export function getFieldHint(field: EnvField): string {
+	const details: string[] = [];
+	if (field.options) {
+		details.push(`one of: ${field.options.join(", ")}`);
+	} else if (field.type !== "string") {
+		details.push(field.type);
+	}
+	if (field.defaultValue !== undefined) {
+		details.push(`default: ${String(field.defaultValue)}`);
+	} else if (field.optional) {
+		details.push("optional");
+	}
+
+	if (!field.description) {
+		return details.join(", ");
+	}
+	return details.length > 0
+		? `${field.description} (${details.join(", ")})`
+		: field.description;
+}
+
+/**
+ * Generate an example file listing every variable of a schema with a hint
+ * @param schema - The schema
+ * @returns The example file contents
+ */
+export function generateExampleFromSchema(schema: EnvSchema): string {
+	const blocks = getSchemaFields(schema).map((field) => {
+		const hint = getFieldHint(field);
+		return hint ? `# ${hint}\n${field.key}=` : `${field.key}=`;
+	});
+	return `${EXAMPLE_HEADER}\n\n${blocks.join("\n\n")}\n`;
+}
+
+/**
+ * Generate an example file from the contents of a .env file, keeping its
+ * comments and layout but blanking every value. Commented-out variables are
+ * dropped since they may hold real values.
+ * @param content - The plaintext .env contents
+ * @returns The example file contents
+ */
+export function generateExampleFromEnv(content: string): string {
+	const document = parseEnvDocument(content);
+	document.lines = document.lines.filter(
+		(line) => line.type === "entry" || !COMMENTED_ENTRY_PATTERN.test(line.raw),
+	);
+	for (const line of document.lines) {
+		if (line.type === "entry") {
+			updateEnvEntry(line, "", "");
+		}
+	}
+
+	const body = stringifyEnvDocument(document);
+	return `${EXAMPLE_HEADER}\n\n${body.endsWith("\n") ? body : `${body}\n`}`;
+}
@@ -0,0 +1,200 @@
+/**
+ * Converting decrypted variables to the formats used by deploy tools
+ */
+
+import { randomUUID } from "node:crypto";
+
+/**
+ * The formats variables can be exported to
+ */
+export const EXPORT_FORMATS = [
+	"json",
+	"yaml",
+	"shell",
+	"docker-env",
+	"k8s-secret",
+	"github-actions",
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * The default name of the exported Kubernetes Secret
+ */
+export const DEFAULT_SECRET_NAME = "super-env";
+
+/**
+ * Options for exporting variables
+ */
+export interface ExportOptions {
+	/**
+	 * The name of the Kubernetes Secret
+	 * @default "super-env"
+	 */
+	name?: string;
+
+	/**
+	 * The namespace of the Kubernetes Secret
+	 */
+	namespace?: string;
+}
+
+/**
+ * Which variables to export
+ */
+export interface ExportFilter {
+	/**
+	 * Only export variables starting with this prefix
+	 */
+	prefix?: string;
+
+	/**
+	 * Only export these variables
+	 */
+	keys?: string[];
+}
+
+/**
+ * Check whether a value is one of the export formats
+ * @param format - The format name
+ */
+export function isExportFormat(format: string): format is ExportFormat {
+	return (EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Keep the variables matching a prefix and/or a list of keys
+ * @param values - The variables
+ * @param filter - The prefix and keys to keep
+ * @returns The matching variables
+ * @throws {Error} If a listed key is not set
+ */
+export function filterEnvValues(
+	values: Record<string, string>,
+	filter: ExportFilter = {},
+): Record<string, string> {
+	const missing = (filter.keys ?? []).filter(
+		(key) => !Object.hasOwn(values, key),
+	);
+	if (missing.length > 0) {
+		throw new Error(
+			`${missing.join(", ")} ${missing.length === 1 ? "is" : "are"} not set`,
+		);
+	}
+
+	return Object.fromEntries(
+		Object.entries(values).filter(
+			([key]) =>
+				(!filter.prefix || key.startsWith(filter.prefix)) &&
+				(!filter.keys || filter.keys.includes(key)),
+		),
+	);
+}
+
+/**
+ * Quote a value for a POSIX shell
+ * @param value - The value to quote
+ */
+function quoteShell(value: string): string {
+	return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Write a Kubernetes Secret manifest holding the variables base64 encoded
+ * @param values - The variables
+ * @param options - The Secret name and namespace
+ */
+function formatKubernetesSecret(
+	values: Record<string, string>,
+	options: ExportOptions,
+): string {
+	const name = options.name || DEFAULT_SECRET_NAME;
+	// Kubernetes object names are DNS subdomains
+	for (const [label, value] of [
+		["name", name],
+		["namespace", options.namespace],
+	] as const) {
+		if (
+			value !== undefined &&
+			!/^[a-z0-9]([-a-z0-9.]*[a-z0-9])?$/.test(value)
+		) {
+			throw new Error(
+				`Invalid Kubernetes ${label} "${value}": use lowercase letters, digits, "-" and "."`,
+			);
+		}
+	}
+
+	const entries = Object.entries(values);
+	return [
+		"apiVersion: v1",
+		"kind: Secret",
+		"metadata:",
+		`  name: ${name}`,
+		...(options.namespace ? [`  namespace: ${options.namespace}`] : []),
+		"type: Opaque",
+		entries.length > 0 ? "data:" : "data: {}",
+		...entries.map(
+			([key, value]) => `  ${key}: ${Buffer.from(value).toString("base64")}`,
+		),
+		"",
+	].join("\n");
+}
+
+/**
+ * Convert variables to an export format
+ * @param values - The variables
+ * @param format - The format to write
+ * @param options - Export options
+ * @returns The exported text
+ * @throws {Error} If a value cannot be written in the format
+ */
+export function exportEnvValues(
+	values: Record<string, string>,
+	format: ExportFormat,
+	options: ExportOptions = {},
+): string {
+	const entries = Object.entries(values);
+	const lines = (write: (key: string, value: string) => string) =>
+		entries.map(([key, value]) => `${write(key, value)}\n`).join("");
+
+	switch (format) {
+		case "json":
+			return `${JSON.stringify(values, null, 2)}\n`;
+		case "yaml":
+			// JSON strings are valid double-quoted YAML scalars; keys YAML would
+			// read as booleans or null are quoted too
+			return entries.length > 0
+				? lines(
+						(key, value) =>
+							`${/^(y|n|yes|no|on|off|true|false|null)$/i.test(key) ? JSON.stringify(key) : key}: ${JSON.stringify(value)}`,
+					)
+				: "{}\n";
+		case "shell":
+			return lines((key, value) => {
+				if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+					throw new Error(`${key} is not a valid shell variable name`);
+				}
+				return `export ${key}=${quoteShell(value)}`;
+			});
+		case "docker-env":
+			return lines((key, value) => {
+				if (/[\r\n]/.test(value)) {
+					throw new Error(
+						`${key} spans several lines, which docker-env files cannot hold`,
+					);
+				}
+				return `${key}=${value}`;
+			});
+		case "k8s-secret":
+			return formatKubernetesSecret(values, options);
+		case "github-actions":
+			// Multiline values use a random delimiter so they cannot end early
+			return lines((key, value) => {
+				if (!/[\r\n]/.test(value)) {
+					return `${key}=${value}`;
+				}
+				const delimiter = `ghadelimiter_${randomUUID()}`;
+				return `${key}<<${delimiter}\n${value}\n${delimiter}`;
+			});
+	}
+}
@@ -0,0 +1,64 @@
+/**
+ * Git integration for encrypted .env files: a textconv diff driver and a
+ * merge driver working on the decrypted contents
+ */
+
+import { execFileSync } from "node:child_process";
+
+/**
+ * The name the drivers are registered under in the git config
+ */
+export const GIT_DRIVER_NAME = "super-env";
+
+/**
+ * The .gitattributes entries routing encrypted .env files to the drivers
+ */
+export const GIT_ATTRIBUTES = [
+	`.env.enc diff=${GIT_DRIVER_NAME} merge=${GIT_DRIVER_NAME}`,
+	`.env.*.enc diff=${GIT_DRIVER_NAME} merge=${GIT_DRIVER_NAME}`,
+];
+
+/**
+ * Register the diff and merge drivers in the local git config
+ * @param command - The command used to run super-env (default: "npx super-env")
+ * @throws {Error} If git cannot be configured, e.g. outside of a repository
+ */
+export function configureGitDrivers(command = "npx super-env"): void {
+	const settings: [string, string][] = [
+		[`diff.${GIT_DRIVER_NAME}.textconv`, `${command} git-textconv`],
+		[`merge.${GIT_DRIVER_NAME}.name`, "super-env encrypted .env merge driver"],
+		[`merge.${GIT_DRIVER_NAME}.driver`, `${command} git-merge %O %A %B %P`],
+	];
+
+	for (const [key, value] of settings) {
+		try {
+			execFileSync("git", ["config", key, value], { stdio: "pipe" });
+		} catch (error) {
+			const stderr = (error as { stderr?: Buffer }).stderr?.toString().trim();
+			throw new Error(
+				`Could not set ${key} in the git config${stderr ? `: ${stderr}` : ""}`,
+			);
+		}
+	}
+}
+
+/**
+ * Read a file as it was at a git revision
+ * @param revision - The revision, e.g. "HEAD~1" or "v1.2.0"
+ * @param filePath - The file path, relative to the current directory
+ * @returns The file contents at that revision
+ * @throws {Error} If the revision or the file does not exist
+ */
+export function readGitFile(revision: string, filePath: string): string {
+	try {
+		return execFileSync("git", ["show", `${revision}:./${filePath}`], {
+			encoding: "utf8",
+			stdio: "pipe",
+		});
+	} catch (error) {
+		const stderr = (error as { stderr?: Buffer }).stderr?.toString().trim();
+		throw new Error(
+			`Could not read ${filePath} at ${revision}${stderr ? `: ${stderr}` : ""}`,
+		);
+	}
+}
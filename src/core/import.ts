@@ -0,0 +1,353 @@
+/**
+ * Importing variables from plaintext .env, JSON and YAML files
+ */
+
+import { randomBytes } from "node:crypto";
+import {
+	closeSync,
+	fstatSync,
+	fsyncSync,
+	openSync,
+	unlinkSync,
+	writeSync,
+} from "node:fs";
+import { extname } from "node:path";
+import {
+	type EnvDocument,
+	type EnvQuote,
+	getEnvValues,
+	parseEnvDocument,
+	setEnvValue,
+} from "./dotenv";
+
+/**
+ * The formats variables can be imported from
+ */
+export const IMPORT_FORMATS = ["dotenv", "json", "yaml"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+/**
+ * What to do with variables that are already set to another value
+ */
+export const IMPORT_STRATEGIES = ["keep", "overwrite", "prompt"] as const;
+
+export type ImportStrategy = (typeof IMPORT_STRATEGIES)[number];
+
+/**
+ * A variable read from an import source
+ */
+export interface ImportedValue {
+	key: string;
+	value: string;
+
+	/**
+	 * The quotes to write the value with, so references that were not meant
+	 * to be expanded stay that way
+	 */
+	quote?: EnvQuote;
+}
+
+/**
+ * The changes made by an import
+ */
+export interface ImportResult {
+	/**
+	 * Variables that were not set before
+	 */
+	added: string[];
+
+	/**
+	 * Variables whose value was replaced
+	 */
+	changed: string[];
+
+	/**
+	 * Variables set to another value that were left as they were
+	 */
+	kept: string[];
+
+	/**
+	 * Variables that were already set to the same value
+	 */
+	unchanged: string[];
+}
+
+/**
+ * Check whether a value is one of the import formats
+ * @param format - The format name
+ */
+export function isImportFormat(format: string): format is ImportFormat {
+	return (IMPORT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Check whether a value is one of the import strategies
+ * @param strategy - The strategy name
+ */
+export function isImportStrategy(strategy: string): strategy is ImportStrategy {
+	return (IMPORT_STRATEGIES as readonly string[]).includes(strategy);
+}
+
+/**
+ * Guess the format of an import source from its file extension, or else
+ * from its contents
+ * @param content - The source contents
+ * @param filePath - The source file, if it is not stdin
+ */
+export function detectImportFormat(
+	content: string,
+	filePath?: string,
+): ImportFormat {
+	const extension = filePath ? extname(filePath).toLowerCase() : "";
+	if (extension === ".json") {
+		return "json";
+	}
+	if (extension === ".yaml" || extension === ".yml") {
+		return "yaml";
+	}
+	if (content.trimStart().startsWith("{")) {
+		return "json";
+	}
+	// YAML maps use "KEY: value" where .env files use "KEY=value"
+	const first = content
+		.split("\n")
+		.map((line) => line.trim())
+		.find((line) => line && !line.startsWith("#") && line !== "---");
+	return first && /^[^=\s]+:(\s|$)/.test(first) ? "yaml" : "dotenv";
+}
+
+/**
+ * Write a value that came from a JSON or YAML file, where `${VAR}` is not a
+ * reference, so it is not expanded: single-quoted, or else with its
+ * references escaped as `\${VAR}` when single quotes cannot hold it
+ * @param key - The variable name
+ * @param value - The value
+ */
+function literalValue(key: string, value: string): ImportedValue {
+	if (!value.includes("${")) {
+		return { key, value };
+	}
+	if (!value.includes("'") && !value.includes("\n")) {
+		return { key, value, quote: "'" };
+	}
+	return {
+		key,
+		value: value.replace(
+			/\$\{(?=[A-Za-z_][A-Za-z0-9_.-]*(?::-[^}]*)?\})/g,
+			"\\${",
+		),
+		quote: '"',
+	};
+}
+
+/**
+ * Read the values of a flat JSON object
+ * @param content - The JSON text
+ */
+function parseJson(content: string): ImportedValue[] {
+	const data = JSON.parse(content);
+	if (typeof data !== "object" || data === null || Array.isArray(data)) {
+		throw new Error("The JSON source must be an object of variables");
+	}
+
+	return Object.entries(data).map(([key, value]) => {
+		if (typeof value === "object" && value !== null) {
+			throw new Error(`${key}: nested values are not supported`);
+		}
+		return literalValue(key, value === null ? "" : String(value));
+	});
+}
+
+/**
+ * Read a YAML scalar: double-quoted, single-quoted or plain
+ * @param text - The text after the colon
+ */
+function parseYamlScalar(text: string): string {
+	if (text.startsWith('"')) {
+		let end = 1;
+		while (end < text.length && text[end] !== '"') {
+			end += text[end] === "\\" ? 2 : 1;
+		}
+		// The common escapes of double-quoted YAML scalars match JSON's
+		return JSON.parse(text.slice(0, end + 1));
+	}
+	if (text.startsWith("'")) {
+		const end = text.search(/'\s*(#.*)?$/);
+		return text.slice(1, end).replace(/''/g, "'");
+	}
+	const value = text.replace(/(^|\s+)#.*$/, "").trim();
+	return value === "~" || value === "null" ? "" : value;
+}
+
+/**
+ * Read the values of a flat YAML map, with `|` and `|-` blocks for
+ * multiline values
+ * @param content - The YAML text
+ */
+function parseYaml(content: string): ImportedValue[] {
+	const lines = content.replace(/\r\n/g, "\n").split("\n");
+	const values: ImportedValue[] = [];
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i]!;
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith("#") || /^(---|\.\.\.)$/.test(trimmed)) {
+			continue;
+		}
+
+		const match =
+			/^(?:"([^"]+)"|'([^']+)'|([^\s:#][^:#]*?))\s*:(?:\s+(.*))?$/.exec(line);
+		if (!match) {
+			throw new Error(
+				/^\s/.test(line)
+					? `Line ${i + 1}: nested values are not supported`
+					: `Line ${i + 1}: expected "KEY: value"`,
+			);
+		}
+		const key = match[1] ?? match[2] ?? match[3]!;
+		const text = (match[4] ?? "").trim();
+
+		if (/^\|-?$/.test(text)) {
+			// Literal block: the following lines that are indented
+			const block: string[] = [];
+			while (i + 1 < lines.length && /^(\s+\S|\s*$)/.test(lines[i + 1]!)) {
+				block.push(lines[++i]!);
+			}
+			while (block.length > 0 && block[block.length - 1]!.trim() === "") {
+				block.pop();
+			}
+			const indent = Math.min(
+				...block
+					.filter((blockLine) => blockLine.trim())
+					.map((blockLine) => /^\s*/.exec(blockLine)![0].length),
+			);
+			const value = block
+				.map((blockLine) => blockLine.slice(indent))
+				.join("\n");
+			values.push(literalValue(key, text === "|" ? `${value}\n` : value));
+			continue;
+		}
+
+		if (text === "" && /^\s+\S/.test(lines[i + 1] ?? "")) {
+			throw new Error(`${key}: nested values are not supported`);
+		}
+		values.push(literalValue(key, parseYamlScalar(text)));
+	}
+
+	return values;
+}
+
+/**
+ * Read the variables of an import source
+ * @param content - The source contents
+ * @param format - The source format
+ * @returns The variables, in the order of the source
+ * @throws {Error} If the source cannot be parsed or has nested values
+ */
+export function parseImportContent(
+	content: string,
+	format: ImportFormat,
+): ImportedValue[] {
+	switch (format) {
+		case "json":
+			return parseJson(content);
+		case "yaml":
+			return parseYaml(content);
+		case "dotenv":
+			// Values are imported as written, references included
+			return parseEnvDocument(content).lines.flatMap((line) =>
+				line.type === "entry"
+					? [{ key: line.key, value: line.value, quote: line.quote }]
+					: [],
+			);
+	}
+}
+
+/**
+ * Get the imported variables that are already set to another value
+ * @param document - The document to import into
+ * @param values - The imported variables
+ */
+export function getImportConflicts(
+	document: EnvDocument,
+	values: ImportedValue[],
+): string[] {
+	const current = getEnvValues(document);
+	return [
+		...new Set(
+			values
+				.filter(
+					({ key, value }) =>
+						Object.hasOwn(current, key) && current[key] !== value,
+				)
+				.map(({ key }) => key),
+		),
+	];
+}
+
+/**
+ * Merge imported variables into a document, keeping its comments and order
+ * @param document - The document to import into
+ * @param values - The imported variables
+ * @param overwrite - Whether to replace a variable that is set to another value
+ * @returns The added, changed, kept and unchanged variables
+ */
+export function importEnvValues(
+	document: EnvDocument,
+	values: ImportedValue[],
+	overwrite: (key: string) => boolean,
+): ImportResult {
+	const initial = getEnvValues(document);
+	const result: ImportResult = {
+		added: [],
+		changed: [],
+		kept: [],
+		unchanged: [],
+	};
+
+	for (const { key, value, quote } of values) {
+		if (!Object.hasOwn(initial, key)) {
+			setEnvValue(document, key, value, quote);
+			if (!result.added.includes(key)) {
+				result.added.push(key);
+			}
+		} else if (initial[key] === value) {
+			result.unchanged.push(key);
+		} else if (overwrite(key)) {
+			setEnvValue(document, key, value, quote);
+			result.changed.push(key);
+		} else {
+			result.kept.push(key);
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Overwrite a file with random bytes before deleting it, so its contents
+ * are harder to recover. Copy-on-write file systems and SSDs may still keep
+ * older copies of the data.
+ * @param filePath - The file to delete
+ */
+export function secureDeleteFile(filePath: string): void {
+	const fd = openSync(filePath, "r+");
+	try {
+		const size = fstatSync(fd).size;
+		const chunk = 64 * 1024;
+		for (let offset = 0; offset < size; offset += chunk) {
+			writeSync(
+				fd,
+				randomBytes(Math.min(chunk, size - offset)),
+				0,
+				undefined,
+				offset,
+			);
+		}
+		fsyncSync(fd);
+	} finally {
+		closeSync(fd);
+	}
+	unlinkSync(filePath);
+}
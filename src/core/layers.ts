@@ -0,0 +1,175 @@
+/**
+ * Layered loading of several .env files with explicit precedence
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { type EnvDocument, expandEnvValues, parseEnvDocument } from "./dotenv";
+import { readEncryptedEnvFile } from "./encryption";
+import { getEnvironmentFromPath, getEnvironmentPaths } from "./environments";
+
+/**
+ * The source reported for variables that were already set in process.env
+ */
+export const PROCESS_ENV_SOURCE = "process.env";
+
+/**
+ * Options for loading several .env files
+ */
+export interface EnvFilesOptions {
+	/**
+	 * The master key file used for every encrypted file
+	 * @default the key file of each encrypted file's environment
+	 */
+	keyFilePath?: string;
+
+	/**
+	 * Whether the files take precedence over variables that are already set
+	 * @default false
+	 */
+	override?: boolean;
+
+	/**
+	 * The variables that are already set
+	 * @default process.env
+	 */
+	env?: Record<string, string | undefined>;
+}
+
+/**
+ * Where the final value of a variable came from
+ */
+export interface EnvValueOrigin {
+	/**
+	 * The variable name
+	 */
+	key: string;
+
+	/**
+	 * The file the value came from, or "process.env" if it was already set
+	 */
+	source: string;
+
+	/**
+	 * The files that also defined the variable but were overridden
+	 */
+	shadowed: string[];
+}
+
+/**
+ * The variables of several .env files, merged by precedence
+ */
+export interface ResolvedEnvFiles {
+	/**
+	 * The merged variables from the files
+	 */
+	values: Record<string, string>;
+
+	/**
+	 * Where each variable came from, in the order the files define them
+	 */
+	origins: EnvValueOrigin[];
+}
+
+/**
+ * Get the default files for an environment, from lowest to highest
+ * precedence: `.env.enc`, `.env`, `.env.local`, then `.env.[environment].enc`,
+ * `.env.[environment]` and `.env.[environment].local`
+ * @param environment - The environment (e.g. "development" or "production")
+ * @returns The file paths
+ */
+export function getEnvFiles(environment?: string): string[] {
+	const files = [".env.enc", ".env", ".env.local"];
+	if (environment) {
+		const paths = getEnvironmentPaths(environment);
+		files.push(
+			paths.encryptedEnvFilePath,
+			paths.envFilePath,
+			`${paths.envFilePath}.local`,
+		);
+	}
+	return files;
+}
+
+/**
+ * Read a plaintext or encrypted (`.enc`) .env file
+ * @param filePath - The file path
+ * @param keyFilePath - The master key file for encrypted files
+ */
+function readEnvFile(filePath: string, keyFilePath?: string): EnvDocument {
+	const content = filePath.endsWith(".enc")
+		? readEncryptedEnvFile(filePath, {
+				keyFilePath:
+					keyFilePath ||
+					getEnvironmentPaths(getEnvironmentFromPath(filePath)).keyFilePath,
+			})
+		: readFileSync(filePath, "utf8");
+	return parseEnvDocument(content);
+}
+
+/**
+ * Read several .env files and merge them: a file overrides the files before
+ * it, and variables that are already set win over all files unless
+ * `override` is set. Missing files are skipped.
+ * @param files - The files, from lowest to highest precedence
+ * @param options - Loading options
+ * @returns The merged variables and where each one came from
+ * @throws {Error} If an encrypted file cannot be decrypted
+ */
+export function resolveEnvFiles(
+	files: string[],
+	options: EnvFilesOptions = {},
+): ResolvedEnvFiles {
+	const env = options.env ?? process.env;
+	const values: Record<string, string> = {};
+	const sources = new Map<string, string[]>();
+
+	for (const file of files) {
+		if (!existsSync(file)) {
+			continue;
+		}
+		// References see the variables the way they will be loaded
+		const document = readEnvFile(file, options.keyFilePath);
+		const expanded = options.override
+			? expandEnvValues(document, {}, { ...env, ...values })
+			: expandEnvValues(document, env, values);
+		for (const [key, value] of Object.entries(expanded)) {
+			values[key] = value;
+			sources.set(key, [...(sources.get(key) ?? []), file]);
+		}
+	}
+
+	const origins = [...sources].map(([key, keyFiles]) =>
+		!options.override && env[key] !== undefined
+			? { key, source: PROCESS_ENV_SOURCE, shadowed: keyFiles }
+			: { key, source: keyFiles.at(-1)!, shadowed: keyFiles.slice(0, -1) },
+	);
+
+	return { values, origins };
+}
+
+/**
+ * Describe where each variable came from, without exposing the values
+ * @param origins - The origins returned by `resolveEnvFiles`
+ * @returns One line per variable, e.g. "API_URL: .env.local (overrides .env)"
+ */
+export function formatEnvOrigins(origins: EnvValueOrigin[]): string[] {
+	return origins.map(({ key, source, shadowed }) =>
+		shadowed.length > 0
+			? `${key}: ${source} (overrides ${shadowed.join(", ")})`
+			: `${key}: ${source}`,
+	);
+}
+
+/**
+ * Report which file the final value of each variable comes from, without
+ * loading anything
+ * @param files - The files, from lowest to highest precedence
+ * @param options - Loading options
+ * @returns One line per variable, e.g. "API_URL: .env.local (overrides .env)"
+ */
+export function debugEnvFiles(
+	files: string[] = getEnvFiles(),
+	options: EnvFilesOptions = {},
+): string[] {
+	return formatEnvOrigins(resolveEnvFiles(files, options).origins);
+}
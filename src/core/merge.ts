@@ -0,0 +1,130 @@
+/**
+ * Key-level three-way merge of decrypted .env files
+ */
+
+import {
+	type EnvDocument,
+	formatEnvValue,
+	getEnvValues,
+	parseEnvDocument,
+	setEnvValue,
+	stringifyEnvDocument,
+	unsetEnvValue,
+} from "./dotenv";
+
+/**
+ * The result of merging two versions of a .env file
+ */
+export interface MergeEnvResult {
+	/**
+	 * The merged .env contents, with conflict markers around conflicting keys
+	 */
+	content: string;
+
+	/**
+	 * The keys that were changed differently on both sides
+	 */
+	conflicts: string[];
+}
+
+/**
+ * Get a variable only if it is defined in the values themselves
+ * @param values - The variables
+ * @param key - The variable name
+ */
+function getOwnValue(
+	values: Record<string, string>,
+	key: string,
+): string | undefined {
+	return Object.hasOwn(values, key) ? values[key] : undefined;
+}
+
+/**
+ * Replace the definition of a key with conflict markers showing both sides
+ * @param document - The merged document
+ * @param key - The conflicting key
+ * @param ours - Our value, or undefined if we removed the key
+ * @param theirs - Their value, or undefined if they removed the key
+ */
+function markConflict(
+	document: EnvDocument,
+	key: string,
+	ours: string | undefined,
+	theirs: string | undefined,
+): void {
+	// Put the conflict where the key is, or where it would be added
+	if (ours === undefined) {
+		setEnvValue(document, key, theirs ?? "");
+	}
+	const index = document.lines.findLastIndex(
+		(line) => line.type === "entry" && line.key === key,
+	);
+
+	const side = (value: string | undefined) =>
+		value === undefined ? [] : [`${key}=${formatEnvValue(value)}`];
+	const markers = [
+		"<<<<<<< ours",
+		...side(ours),
+		"=======",
+		...side(theirs),
+		">>>>>>> theirs",
+	];
+	document.lines.splice(
+		index,
+		1,
+		...markers.map((raw) => ({ type: "text" as const, raw })),
+	);
+}
+
+/**
+ * Merge two versions of a .env file that diverged from a common base. Changes
+ * to different keys are combined; a key changed differently on both sides is
+ * a conflict and is written between conflict markers. The layout and comments
+ * of our version are kept.
+ * @param base - The common ancestor contents (empty if there is none)
+ * @param ours - Our contents
+ * @param theirs - Their contents
+ * @returns The merged contents and the conflicting keys
+ */
+export function mergeEnvContent(
+	base: string,
+	ours: string,
+	theirs: string,
+): MergeEnvResult {
+	const baseValues = getEnvValues(parseEnvDocument(base));
+	const theirValues = getEnvValues(parseEnvDocument(theirs));
+	const document = parseEnvDocument(ours);
+	const ourValues = getEnvValues(document);
+
+	const keys = new Set([
+		...Object.keys(ourValues),
+		...Object.keys(theirValues),
+		...Object.keys(baseValues),
+	]);
+
+	const conflicts: string[] = [];
+	for (const key of keys) {
+		const baseValue = getOwnValue(baseValues, key);
+		const ourValue = getOwnValue(ourValues, key);
+		const theirValue = getOwnValue(theirValues, key);
+
+		if (ourValue === theirValue || theirValue === baseValue) {
+			continue;
+		}
+
+		if (ourValue === baseValue) {
+			// Only they changed the key: take their change
+			if (theirValue === undefined) {
+				unsetEnvValue(document, key);
+			} else {
+				setEnvValue(document, key, theirValue);
+			}
+			continue;
+		}
+
+		conflicts.push(key);
+		markConflict(document, key, ourValue, theirValue);
+	}
+
+	return { content: stringifyEnvDocument(document), conflicts };
+}
@@ -0,0 +1,412 @@
+/**
+ * Public-key recipients for encrypted .env files
+ *
+ * Instead of a shared master key, the file is encrypted with a random data
+ * key which is wrapped for each recipient's X25519 public key. The wrapped
+ * keys are stored in a header at the top of the encrypted file.
+ */
+
+import {
+	type KeyObject,
+	createCipheriv,
+	createDecipheriv,
+	createHash,
+	createPrivateKey,
+	createPublicKey,
+	diffieHellman,
+	generateKeyPairSync,
+	hkdfSync,
+	randomBytes,
+} from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+/**
+ * Prefix of encoded public keys
+ */
+export const PUBLIC_KEY_PREFIX = "super-env-pub:";
+
+/**
+ * Prefix of encoded secret keys
+ */
+export const SECRET_KEY_PREFIX = "SUPER-ENV-SECRET-KEY:";
+
+/**
+ * Environment variable holding an encoded secret key
+ */
+export const IDENTITY_ENV_VAR = "SUPER_ENV_IDENTITY";
+
+/**
+ * Default location of the personal identity file
+ */
+export const DEFAULT_IDENTITY_FILE = join(
+	homedir(),
+	".super-env",
+	"identity.key",
+);
+
+const RECIPIENT_HEADER_PREFIX = "# super-env-recipient: ";
+const X25519_PKCS8_PREFIX = Buffer.from(
+	"302e020100300506032b656e04220420",
+	"hex",
+);
+
+/**
+ * A personal X25519 keypair
+ */
+export interface Identity {
+	secretKey: string;
+	publicKey: string;
+}
+
+/**
+ * A recipient listed in a recipients file
+ */
+export interface Recipient {
+	publicKey: string;
+	name?: string;
+}
+
+/**
+ * The data key wrapped for a single recipient
+ */
+export interface RecipientStanza {
+	fingerprint: string;
+	ephemeralPublicKey: string;
+	wrappedKey: string;
+}
+
+/**
+ * Decode an encoded public key
+ * @param publicKey - The encoded public key
+ */
+function toPublicKeyObject(publicKey: string): KeyObject {
+	if (!publicKey.startsWith(PUBLIC_KEY_PREFIX)) {
+		throw new Error(`Invalid public key: expected ${PUBLIC_KEY_PREFIX}...`);
+	}
+	const x = publicKey.slice(PUBLIC_KEY_PREFIX.length);
+	if (Buffer.from(x, "base64url").length !== 32) {
+		throw new Error("Invalid public key: expected 32 bytes");
+	}
+	return createPublicKey({
+		key: { kty: "OKP", crv: "X25519", x },
+		format: "jwk",
+	});
+}
+
+/**
+ * Decode an encoded secret key
+ * @param secretKey - The encoded secret key
+ */
+function toPrivateKeyObject(secretKey: string): KeyObject {
+	const raw = Buffer.from(
+		secretKey.trim().slice(SECRET_KEY_PREFIX.length),
+		"base64url",
+	);
+	if (!secretKey.trim().startsWith(SECRET_KEY_PREFIX) || raw.length !== 32) {
+		throw new Error(`Invalid secret key: expected ${SECRET_KEY_PREFIX}...`);
+	}
+	return createPrivateKey({
+		key: Buffer.concat([X25519_PKCS8_PREFIX, raw]),
+		format: "der",
+		type: "pkcs8",
+	});
+}
+
+/**
+ * Encode a public key object
+ * @param key - The public key object
+ */
+function encodePublicKey(key: KeyObject): string {
+	return `${PUBLIC_KEY_PREFIX}${key.export({ format: "jwk" }).x}`;
+}
+
+/**
+ * Generate a new personal keypair
+ * @returns The generated identity
+ */
+export function generateIdentity(): Identity {
+	const { privateKey, publicKey } = generateKeyPairSync("x25519");
+	const raw = privateKey
+		.export({ format: "der", type: "pkcs8" })
+		.subarray(X25519_PKCS8_PREFIX.length);
+
+	return {
+		secretKey: `${SECRET_KEY_PREFIX}${raw.toString("base64url")}`,
+		publicKey: encodePublicKey(publicKey),
+	};
+}
+
+/**
+ * Get the public key for a secret key
+ * @param secretKey - The encoded secret key
+ * @returns The encoded public key
+ */
+export function getPublicKey(secretKey: string): string {
+	return encodePublicKey(createPublicKey(toPrivateKeyObject(secretKey)));
+}
+
+/**
+ * Get the short fingerprint identifying a public key
+ * @param publicKey - The encoded public key
+ * @returns The fingerprint (16 hex characters)
+ */
+export function getFingerprint(publicKey: string): string {
+	const raw = toPublicKeyObject(publicKey).export({ format: "jwk" }).x!;
+	return createHash("sha256")
+		.update(Buffer.from(raw, "base64url"))
+		.digest("hex")
+		.slice(0, 16);
+}
+
+/**
+ * Save an identity to a file readable only by the current user
+ * @param identity - The identity to save
+ * @param filePath - Path to the identity file
+ */
+export function saveIdentity(
+	identity: Identity,
+	filePath: string = DEFAULT_IDENTITY_FILE,
+): void {
+	mkdirSync(dirname(filePath), { recursive: true });
+	writeFileSync(
+		filePath,
+		`# super-env identity\n# public key: ${identity.publicKey}\n${identity.secretKey}\n`,
+		{ mode: 0o600 },
+	);
+}
+
+/**
+ * Load the personal identity from, in order: an explicit identity file, the
+ * SUPER_ENV_IDENTITY environment variable, then the default identity file
+ * @param filePath - An explicit identity file
+ * @returns The identity
+ * @throws {Error} If no identity is found, naming every source checked
+ */
+export function loadIdentity(filePath?: string): Identity {
+	const fromText = (text: string): Identity => {
+		const secretKey = text
+			.split(/\r?\n/)
+			.find((line) => line.trim().startsWith(SECRET_KEY_PREFIX))
+			?.trim();
+		if (!secretKey) {
+			throw new Error("Invalid identity: no secret key found");
+		}
+		return { secretKey, publicKey: getPublicKey(secretKey) };
+	};
+
+	if (filePath) {
+		if (!existsSync(filePath)) {
+			throw new Error(`Identity file not found: ${filePath}`);
+		}
+		return fromText(readFileSync(filePath, "utf8"));
+	}
+
+	const envIdentity = process.env[IDENTITY_ENV_VAR];
+	if (envIdentity) {
+		return fromText(envIdentity);
+	}
+
+	if (existsSync(DEFAULT_IDENTITY_FILE)) {
+		return fromText(readFileSync(DEFAULT_IDENTITY_FILE, "utf8"));
+	}
+
+	throw new Error(
+		[
+			"No identity found. Checked:",
+			"  - identity file: not provided",
+			`  - $${IDENTITY_ENV_VAR}: not set`,
+			`  - ${DEFAULT_IDENTITY_FILE}: not found`,
+			"Run `super-env keygen` to create one.",
+		].join("\n"),
+	);
+}
+
+/**
+ * Derive the key wrapping the data key for one recipient
+ * @param sharedSecret - The X25519 shared secret
+ * @param ephemeralPublicKey - The encoded ephemeral public key
+ * @param recipientPublicKey - The encoded recipient public key
+ */
+function deriveWrappingKey(
+	sharedSecret: Buffer,
+	ephemeralPublicKey: string,
+	recipientPublicKey: string,
+): Buffer {
+	return Buffer.from(
+		hkdfSync(
+			"sha256",
+			sharedSecret,
+			`${ephemeralPublicKey}${recipientPublicKey}`,
+			"super-env recipient",
+			32,
+		),
+	);
+}
+
+/**
+ * Wrap a data key for each recipient
+ * @param dataKey - The data key
+ * @param recipients - The encoded public keys of the recipients
+ * @returns One stanza per recipient
+ */
+export function wrapDataKey(
+	dataKey: Buffer,
+	recipients: string[],
+): RecipientStanza[] {
+	return recipients.map((recipient) => {
+		const ephemeral = generateKeyPairSync("x25519");
+		const ephemeralPublicKey = encodePublicKey(ephemeral.publicKey);
+		const sharedSecret = diffieHellman({
+			privateKey: ephemeral.privateKey,
+			publicKey: toPublicKeyObject(recipient),
+		});
+
+		const fingerprint = getFingerprint(recipient);
+		const nonce = randomBytes(12);
+		const cipher = createCipheriv(
+			"aes-256-gcm",
+			deriveWrappingKey(sharedSecret, ephemeralPublicKey, recipient),
+			nonce,
+		);
+		cipher.setAAD(Buffer.from(fingerprint, "utf8"));
+		const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+		return {
+			fingerprint,
+			ephemeralPublicKey: ephemeralPublicKey.slice(PUBLIC_KEY_PREFIX.length),
+			wrappedKey: [nonce, cipher.getAuthTag(), ciphertext]
+				.map((part) => part.toString("base64"))
+				.join(":"),
+		};
+	});
+}
+
+/**
+ * Unwrap the data key with the personal identity
+ * @param stanzas - The stanzas from the encrypted file header
+ * @param identity - The personal identity
+ * @returns The data key
+ * @throws {Error} If the identity is not one of the recipients
+ */
+export function unwrapDataKey(
+	stanzas: RecipientStanza[],
+	identity: Identity,
+): Buffer {
+	const fingerprint = getFingerprint(identity.publicKey);
+	const stanza = stanzas.find((entry) => entry.fingerprint === fingerprint);
+	if (!stanza) {
+		throw new Error(
+			`Your identity (${fingerprint}) is not a recipient of this file. Ask a recipient to run \`super-env recipients add ${identity.publicKey}\``,
+		);
+	}
+
+	const ephemeralPublicKey = `${PUBLIC_KEY_PREFIX}${stanza.ephemeralPublicKey}`;
+	const sharedSecret = diffieHellman({
+		privateKey: toPrivateKeyObject(identity.secretKey),
+		publicKey: toPublicKeyObject(ephemeralPublicKey),
+	});
+
+	const [nonce, tag, ciphertext] = stanza.wrappedKey
+		.split(":")
+		.map((part) => Buffer.from(part, "base64")) as [Buffer, Buffer, Buffer];
+	const decipher = createDecipheriv(
+		"aes-256-gcm",
+		deriveWrappingKey(sharedSecret, ephemeralPublicKey, identity.publicKey),
+		nonce,
+	);
+	decipher.setAAD(Buffer.from(fingerprint, "utf8"));
+	decipher.setAuthTag(tag);
+
+	try {
+		return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+	} catch {
+		throw new Error(
+			"Could not unwrap the data key: the recipient header has been tampered with",
+		);
+	}
+}
+
+/**
+ * Split the recipient header from the encrypted contents
+ * @param encryptedContent - The encrypted file contents
+ * @returns The recipient stanzas (empty without a header) and the encrypted body
+ */
+export function splitRecipientHeader(encryptedContent: string): {
+	stanzas: RecipientStanza[];
+	body: string;
+} {
+	const stanzas: RecipientStanza[] = [];
+	let body = encryptedContent;
+
+	while (body.startsWith(RECIPIENT_HEADER_PREFIX)) {
+		const end = body.indexOf("\n");
+		const line = end === -1 ? body : body.slice(0, end);
+		const [fingerprint, ephemeralPublicKey, wrappedKey] = line
+			.slice(RECIPIENT_HEADER_PREFIX.length)
+			.trim()
+			.split(/\s+/);
+		if (!fingerprint || !ephemeralPublicKey || !wrappedKey) {
+			throw new Error("Invalid recipient header");
+		}
+
+		stanzas.push({ fingerprint, ephemeralPublicKey, wrappedKey });
+		body = end === -1 ? "" : body.slice(end + 1);
+	}
+
+	return { stanzas, body };
+}
+
+/**
+ * Format the recipient header of an encrypted file
+ * @param stanzas - The recipient stanzas
+ * @returns The header lines, each terminated by a newline
+ */
+export function formatRecipientHeader(stanzas: RecipientStanza[]): string {
+	return stanzas
+		.map(
+			(stanza) =>
+				`${RECIPIENT_HEADER_PREFIX}${stanza.fingerprint} ${stanza.ephemeralPublicKey} ${stanza.wrappedKey}\n`,
+		)
+		.join("");
+}
+
+/**
+ * Load the recipients file (one public key per line, optionally followed by `# name`)
+ * @param filePath - Path to the recipients file
+ * @returns The recipients, or an empty list if the file does not exist
+ */
+export function loadRecipients(filePath: string): Recipient[] {
+	if (!existsSync(filePath)) {
+		return [];
+	}
+
+	return readFileSync(filePath, "utf8")
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter((line) => line.startsWith(PUBLIC_KEY_PREFIX))
+		.map((line) => {
+			const [publicKey, ...comment] = line.split("#");
+			const name = comment.join("#").trim();
+			return { publicKey: publicKey!.trim(), ...(name && { name }) };
+		});
+}
+
+/**
+ * Save the recipients file
+ * @param filePath - Path to the recipients file
+ * @param recipients - The recipients
+ */
+export function saveRecipients(
+	filePath: string,
+	recipients: Recipient[],
+): void {
+	const lines = recipients.map(({ publicKey, name }) =>
+		name ? `${publicKey} # ${name}` : publicKey,
+	);
+	writeFileSync(
+		filePath,
+		`# super-env recipients: public keys that can decrypt the matching .env.enc file\n${lines.join("\n")}\n`,
+	);
+}
@@ -0,0 +1,128 @@
+/**
+ * Loading encrypted variables before a server app starts (`super-env/register`)
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { readEncryptedEnvValues } from "./encryption";
+import { createEnv, populateProcessEnv } from "./env";
+import { getEnvironmentPaths } from "./environments";
+import { getSchemaParts, loadEnvSchema } from "./schema";
+
+/**
+ * The environment variable selecting the environment to load
+ */
+export const ENVIRONMENT_ENV_VAR = "SUPER_ENV_ENVIRONMENT";
+
+/**
+ * The environment variable pointing to the schema module to validate with
+ */
+export const SCHEMA_ENV_VAR = "SUPER_ENV_SCHEMA";
+
+/**
+ * The package.json field holding the register options
+ */
+export const REGISTER_CONFIG_KEY = "superEnv";
+
+/**
+ * Options for loading encrypted variables at startup
+ */
+export interface RegisterOptions {
+	/**
+	 * The environment to load (e.g. "production" loads `.env.production.enc`)
+	 */
+	environment?: string;
+
+	/**
+	 * Path to the encrypted env file
+	 * @default ".env.enc", or `.env.[environment].enc`
+	 */
+	encryptedEnvPath?: string;
+
+	/**
+	 * Path to the master key file (the SUPER_ENV_MASTER_KEY environment
+	 * variable takes precedence)
+	 * @default "MASTER_KEY.key", or `MASTER_KEY.[environment].key`
+	 */
+	keyFilePath?: string;
+
+	/**
+	 * Module exporting a Zod schema or a `{ client, server }` object to
+	 * validate the variables with
+	 */
+	schema?: string;
+
+	/**
+	 * Whether the decrypted variables replace variables that are already set
+	 * @default false
+	 */
+	override?: boolean;
+}
+
+/**
+ * Read the register options from the `superEnv` field of package.json,
+ * overridden by the SUPER_ENV_ENVIRONMENT and SUPER_ENV_SCHEMA variables
+ * @param packageJsonPath - The package.json to read
+ * @returns The register options
+ */
+export function getRegisterOptions(
+	packageJsonPath = "package.json",
+): RegisterOptions {
+	let config: RegisterOptions = {};
+	if (existsSync(packageJsonPath)) {
+		try {
+			config =
+				JSON.parse(readFileSync(packageJsonPath, "utf8"))[
+					REGISTER_CONFIG_KEY
+				] ?? {};
+		} catch (error) {
+			throw new Error(
+				`Could not read the ${REGISTER_CONFIG_KEY} options from ${packageJsonPath}: ${
+					error instanceof Error ? error.message : error
+				}`,
+			);
+		}
+	}
+
+	return {
+		...config,
+		...(process.env[ENVIRONMENT_ENV_VAR] && {
+			environment: process.env[ENVIRONMENT_ENV_VAR],
+		}),
+		...(process.env[SCHEMA_ENV_VAR] && {
+			schema: process.env[SCHEMA_ENV_VAR],
+		}),
+	};
+}
+
+/**
+ * Decrypt an encrypted .env file in memory into process.env and validate the
+ * result against the schema, if any
+ * @param options - Register options
+ * @returns The decrypted variables
+ * @throws {Error} If the file is missing or cannot be decrypted
+ * @throws {EnvValidationError} If the variables do not match the schema
+ */
+export async function registerEnv(
+	options: RegisterOptions = {},
+): Promise<Record<string, string>> {
+	const paths = getEnvironmentPaths(options.environment);
+	const encryptedEnvPath =
+		options.encryptedEnvPath || paths.encryptedEnvFilePath;
+	if (!existsSync(encryptedEnvPath)) {
+		throw new Error(`Encrypted file ${encryptedEnvPath} not found`);
+	}
+
+	const values = readEncryptedEnvValues(encryptedEnvPath, {
+		keyFilePath: options.keyFilePath || paths.keyFilePath,
+	});
+	populateProcessEnv(values, options.override);
+
+	if (options.schema) {
+		const schema = await loadEnvSchema(options.schema);
+		for (const part of getSchemaParts(schema)) {
+			createEnv(part, { skipEnvLoad: true, logValidationErrors: false });
+		}
+	}
+
+	return values;
+}
@@ -0,0 +1,136 @@
+/**
+ * Master key rotation for encrypted .env files
+ */
+
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import {
+	MASTER_KEY_FILENAME,
+	type MasterKeyOptions,
+	PASSPHRASE_ENV_VAR,
+	decryptEnvContent,
+	detectEncryptionMode,
+	encryptEnvContent,
+	generateMasterKey,
+	isPassphraseProtected,
+	resolveMasterKey,
+	saveMasterKey,
+} from "./encryption";
+
+/**
+ * The result of a master key rotation
+ */
+export interface RotateMasterKeyResult {
+	/**
+	 * The file the new master key was written to
+	 */
+	keyFilePath: string;
+
+	/**
+	 * The timestamped backup of the previous master key
+	 */
+	backupFilePath: string;
+
+	/**
+	 * The encrypted files that were re-encrypted with the new key
+	 */
+	files: string[];
+}
+
+/**
+ * Get the path of a timestamped backup for a key file
+ * @param keyFilePath - The key file
+ * @param date - The time of the backup
+ */
+export function getKeyBackupPath(
+	keyFilePath: string,
+	date = new Date(),
+): string {
+	return `${keyFilePath}.${date.toISOString().replace(/[:.]/g, "-")}.bak`;
+}
+
+/**
+ * Replace the master key and re-encrypt every given file with it. All files
+ * are decrypted before anything is written, and if writing fails the
+ * previous key and files are restored, so either every file is rotated or none.
+ * A passphrase-protected key file stays protected by the same passphrase.
+ * @param files - The encrypted files to re-encrypt
+ * @param masterKey - Where to find the current master key
+ * @returns The rotation result
+ * @throws {Error} If a file cannot be decrypted with the current key
+ */
+export function rotateMasterKey(
+	files: string[],
+	masterKey: MasterKeyOptions = {},
+): RotateMasterKeyResult {
+	const keyFilePath = masterKey.keyFilePath || MASTER_KEY_FILENAME;
+	const oldKey = resolveMasterKey(masterKey);
+
+	// Decrypt everything first so a bad file aborts before any change
+	const decrypted = files.map((file) => {
+		const original = readFileSync(file, "utf8");
+		try {
+			return {
+				file,
+				original,
+				plaintext: decryptEnvContent(original, oldKey),
+			};
+		} catch (error) {
+			throw new Error(
+				`Could not decrypt ${file} with the current master key, no files were changed: ${
+					error instanceof Error ? error.message : error
+				}`,
+			);
+		}
+	});
+
+	const newKey = generateMasterKey();
+	const reEncrypted = decrypted.map(({ file, original, plaintext }) => ({
+		file,
+		original,
+		encrypted: encryptEnvContent(plaintext, newKey, {
+			mode: detectEncryptionMode(original),
+		}),
+	}));
+
+	const passphrase = isPassphraseProtected(keyFilePath)
+		? (masterKey.passphrase ?? process.env[PASSPHRASE_ENV_VAR])
+		: undefined;
+	if (isPassphraseProtected(keyFilePath) && !passphrase) {
+		throw new Error(
+			`${keyFilePath} is protected by a passphrase: set $${PASSPHRASE_ENV_VAR} so the new key can be protected too`,
+		);
+	}
+
+	// Keep the old key around in case something was encrypted with it elsewhere
+	const backupFilePath = getKeyBackupPath(keyFilePath);
+	saveMasterKey(oldKey, backupFilePath, { passphrase });
+
+	const previousKeyFile = existsSync(keyFilePath)
+		? readFileSync(keyFilePath)
+		: undefined;
+	const written: typeof reEncrypted = [];
+	try {
+		saveMasterKey(newKey, keyFilePath, { passphrase });
+		for (const entry of reEncrypted) {
+			writeFileSync(entry.file, entry.encrypted);
+			written.push(entry);
+		}
+	} catch (error) {
+		// Roll back to the previous key and contents
+		for (const entry of written) {
+			writeFileSync(entry.file, entry.original);
+		}
+		if (previousKeyFile) {
+			writeFileSync(keyFilePath, previousKeyFile);
+		} else if (existsSync(keyFilePath)) {
+			unlinkSync(keyFilePath);
+		}
+		throw error;
+	}
+
+	return {
+		keyFilePath,
+		backupFilePath,
+		files: reEncrypted.map(({ file }) => file),
+	};
+}
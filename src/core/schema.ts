@@ -0,0 +1,336 @@
+/**
+ * Loading and checking environment schemas outside of the app
+ */
+
+import { createRequire } from "node:module";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { z } from "zod";
+import { redactIssue } from "./errors";
+
+/**
+ * A Zod schema, or the `{ client, server }` schemas used by `createNextEnv`
+ */
+export type EnvSchema =
+	| z.ZodTypeAny
+	| { client: z.ZodTypeAny; server: z.ZodTypeAny };
+
+/**
+ * The problems found when checking variables against a schema
+ */
+export interface EnvCheckResult {
+	/**
+	 * Required keys that are not set
+	 */
+	missing: string[];
+
+	/**
+	 * Keys whose value is rejected by the schema (an empty key for
+	 * refinements of the whole object)
+	 */
+	invalid: { key: string; message: string }[];
+
+	/**
+	 * Keys that are set but not part of the schema
+	 */
+	extra: string[];
+}
+
+/**
+ * Check whether a value is a Zod schema. Duck typing is used so schemas
+ * created with another copy of Zod are recognized too.
+ * @param value - The value to check
+ */
+export function isZodSchema(value: unknown): value is z.ZodTypeAny {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as z.ZodTypeAny).safeParse === "function" &&
+		"_def" in value
+	);
+}
+
+/**
+ * Check whether a value is a Zod schema or a `{ client, server }` object
+ * @param value - The value to check
+ */
+export function isEnvSchema(value: unknown): value is EnvSchema {
+	if (isZodSchema(value)) {
+		return true;
+	}
+	const { client, server } = (value ?? {}) as Record<string, unknown>;
+	return isZodSchema(client) && isZodSchema(server);
+}
+
+/**
+ * Import a schema module. TypeScript modules are transpiled with jiti, since
+ * Node.js cannot import them on its own.
+ * @param path - The absolute module path
+ * @param reload - Whether to import the module again after it changed
+ * @returns The module exports
+ */
+async function importSchemaModule(
+	path: string,
+	reload = false,
+): Promise<Record<string, unknown>> {
+	if (/\.[cm]?tsx?$/.test(path)) {
+		const { createJiti } = await import("jiti");
+		const jiti = createJiti(import.meta.url, {
+			moduleCache: !reload,
+			fsCache: false,
+			tryNative: false,
+		});
+		return jiti.import(path);
+	}
+
+	const url = pathToFileURL(path);
+	if (reload) {
+		// Bun drops the module from its cache, Node.js imports a new URL
+		delete createRequire(import.meta.url).cache[path];
+		url.searchParams.set("t", String(Date.now()));
+	}
+	return import(url.href);
+}
+
+/**
+ * Load the schema exported by a module: its default export, a `schema` or
+ * `envSchema` export, or else the first export that is a schema
+ * @param filePath - The module path, relative to the current directory
+ * @param options - Set reload to import the module again after it changed
+ * @returns The schema
+ * @throws {Error} If the module does not export a schema
+ */
+export async function loadEnvSchema(
+	filePath: string,
+	options: { reload?: boolean } = {},
+): Promise<EnvSchema> {
+	const module = await importSchemaModule(resolve(filePath), options.reload);
+	const candidates = [
+		module.default,
+		module.schema,
+		module.envSchema,
+		...Object.values(module),
+		// CommonJS modules are wrapped in the default export
+		...Object.values(module.default ?? {}),
+	];
+
+	const schema = candidates.find(isEnvSchema);
+	if (!schema) {
+		throw new Error(
+			`${filePath} does not export a Zod schema or a { client, server } object`,
+		);
+	}
+	return schema;
+}
+
+/**
+ * Get the schemas to validate with, splitting `{ client, server }` objects
+ * @param schema - The schema
+ */
+export function getSchemaParts(schema: EnvSchema): z.ZodTypeAny[] {
+	return isZodSchema(schema) ? [schema] : [schema.server, schema.client];
+}
+
+/**
+ * Get the object schema wrapped by refinements and transforms, if any
+ * @param schema - The schema
+ */
+export function getObjectSchema(
+	schema: z.ZodTypeAny,
+): z.AnyZodObject | undefined {
+	let current: z.ZodTypeAny = schema;
+	while (current._def.typeName === "ZodEffects") {
+		current = current._def.schema;
+	}
+	return current._def.typeName === "ZodObject"
+		? (current as z.AnyZodObject)
+		: undefined;
+}
+
+/**
+ * Get the keys a schema defines
+ * @param schema - The schema
+ * @returns The keys, or undefined if a part of the schema is not an object
+ */
+export function getSchemaKeys(schema: EnvSchema): string[] | undefined {
+	const keys: string[] = [];
+	for (const part of getSchemaParts(schema)) {
+		const object = getObjectSchema(part);
+		if (!object) {
+			return undefined;
+		}
+		keys.push(...Object.keys(object.shape));
+	}
+	return keys;
+}
+
+/**
+ * Check variables against a schema, listing every missing, invalid and extra key
+ * @param schema - The schema
+ * @param values - The variables to check
+ * @returns The problems found
+ */
+export function checkEnvValues(
+	schema: EnvSchema,
+	values: Record<string, string>,
+): EnvCheckResult {
+	const missing = new Set<string>();
+	const invalid: EnvCheckResult["invalid"] = [];
+
+	for (const part of getSchemaParts(schema)) {
+		const result = part.safeParse(values);
+		if (result.success) {
+			continue;
+		}
+		for (const issue of result.error.issues) {
+			const key = issue.path.join(".");
+			// Refinements of the whole object have no key
+			if (
+				issue.path.length > 0 &&
+				!Object.hasOwn(values, String(issue.path[0]))
+			) {
+				missing.add(key);
+			} else {
+				invalid.push({ key, message: redactIssue(issue).message });
+			}
+		}
+	}
+
+	const keys = getSchemaKeys(schema);
+	const extra = keys
+		? Object.keys(values).filter((key) => !keys.includes(key))
+		: [];
+
+	return { missing: [...missing], invalid, extra };
+}
+
+/**
+ * What a schema says about a single variable
+ */
+export interface EnvField {
+	/**
+	 * The variable name
+	 */
+	key: string;
+
+	/**
+	 * The kind of value, e.g. "string", "url", "number", "boolean" or "enum"
+	 */
+	type: string;
+
+	/**
+	 * The allowed values of an enum
+	 */
+	options?: string[];
+
+	/**
+	 * The default value, if any
+	 */
+	defaultValue?: unknown;
+
+	/**
+	 * The text given with `.describe()`
+	 */
+	description?: string;
+
+	/**
+	 * Whether the variable can be left unset
+	 */
+	optional: boolean;
+}
+
+/**
+ * String checks that are worth showing as the type of a variable
+ */
+const STRING_FORMATS = ["url", "email", "uuid", "cuid", "datetime", "ip"];
+
+/**
+ * Get the schema wrapped by an optional, default, refinement or transform
+ * wrapper
+ * @param schema - The schema
+ * @returns The wrapped schema, or undefined if the schema is not a wrapper
+ */
+export function getInnerSchema(schema: z.ZodTypeAny): z.ZodTypeAny | undefined {
+	const def = schema._def;
+	switch (def.typeName) {
+		case "ZodOptional":
+		case "ZodDefault":
+		case "ZodNullable":
+		case "ZodCatch":
+			return def.innerType;
+		case "ZodEffects":
+			return def.schema;
+		case "ZodBranded":
+			return def.type;
+		case "ZodPipeline":
+			return def.in;
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Describe the value a field schema accepts, looking through optional,
+ * default, refinement and transform wrappers
+ * @param key - The variable name
+ * @param schema - The field schema
+ */
+function describeField(key: string, schema: z.ZodTypeAny): EnvField {
+	const field: EnvField = { key, type: "string", optional: false };
+
+	let current: z.ZodTypeAny | undefined = schema;
+	let inner: z.ZodTypeAny = schema;
+	for (; current; current = getInnerSchema(current)) {
+		inner = current;
+		field.description ??= current.description;
+		if (current._def.typeName === "ZodOptional") {
+			field.optional = true;
+		} else if (current._def.typeName === "ZodDefault") {
+			field.optional = true;
+			field.defaultValue ??= current._def.defaultValue();
+		}
+	}
+
+	const def = inner._def;
+	switch (def.typeName) {
+		case "ZodString":
+			field.type =
+				def.checks
+					.map((check: { kind: string }) => check.kind)
+					.find((kind: string) => STRING_FORMATS.includes(kind)) ?? "string";
+			break;
+		case "ZodEnum":
+			field.type = "enum";
+			field.options = [...def.values];
+			break;
+		case "ZodNativeEnum":
+			field.type = "enum";
+			field.options = Object.values(def.values as Record<string, unknown>)
+				.filter((value) => typeof value === "string")
+				.map(String);
+			break;
+		case "ZodLiteral":
+			field.type = "enum";
+			field.options = [String(def.value)];
+			break;
+		default:
+			field.type = String(def.typeName).replace(/^Zod/, "").toLowerCase();
+	}
+
+	return field;
+}
+
+/**
+ * Describe every variable a schema defines, skipping parts that are not objects
+ * @param schema - The schema
+ */
+export function getSchemaFields(schema: EnvSchema): EnvField[] {
+	return getSchemaParts(schema).flatMap((part) => {
+		const object = getObjectSchema(part);
+		return object
+			? Object.entries(object.shape as Record<string, z.ZodTypeAny>).map(
+					([key, field]) => describeField(key, field),
+				)
+			: [];
+	});
+}
@@ -0,0 +1,139 @@
+/**
+ * Secret variables that are redacted when an env object is logged or serialized
+ */
+
+import type { z } from "zod";
+import {
+	type EnvSchema,
+	getInnerSchema,
+	getObjectSchema,
+	getSchemaParts,
+} from "./schema";
+
+/**
+ * The text shown instead of a secret value
+ */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * The schemas marked with `secret()`
+ */
+const secretSchemas = new WeakSet<z.ZodTypeAny>();
+
+/**
+ * The secret keys of the env objects returned by `protectSecrets`
+ */
+const protectedEnvs = new WeakMap<object, string[]>();
+
+/**
+ * Values shorter than this are not scrubbed by `redact`, since they would
+ * match unrelated text (e.g. "3" in every line of a log)
+ */
+const MIN_REDACTED_LENGTH = 4;
+
+/**
+ * Mark a schema field as secret, so its value is redacted when the env
+ * object is logged or serialized
+ * @param schema - The field schema
+ * @returns The same schema
+ */
+export function secret<T extends z.ZodTypeAny>(schema: T): T {
+	secretSchemas.add(schema);
+	return schema;
+}
+
+/**
+ * Check whether a field schema, or a schema it wraps, was marked with `secret()`
+ * @param schema - The field schema
+ */
+export function isSecretSchema(schema: z.ZodTypeAny): boolean {
+	for (
+		let current: z.ZodTypeAny | undefined = schema;
+		current;
+		current = getInnerSchema(current)
+	) {
+		if (secretSchemas.has(current)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Get the keys of a schema that are marked with `secret()`
+ * @param schema - The schema
+ */
+export function getSecretKeys(schema: EnvSchema): string[] {
+	return getSchemaParts(schema).flatMap((part) => {
+		const object = getObjectSchema(part);
+		return object
+			? Object.entries(object.shape as Record<string, z.ZodTypeAny>)
+					.filter(([, field]) => isSecretSchema(field))
+					.map(([key]) => key)
+			: [];
+	});
+}
+
+/**
+ * Make an env object redact its secret values when serialized with
+ * `JSON.stringify`, printed with `console.log`/`util.inspect` or converted
+ * to a string. Reading a property still returns the real value.
+ * @param env - The env object
+ * @param secretKeys - The keys to redact
+ * @returns The same object
+ */
+export function protectSecrets<T>(env: T, secretKeys: string[]): T {
+	if (typeof env !== "object" || env === null) {
+		return env;
+	}
+	// Registered even without secrets, so `redact` leaves its values alone
+	protectedEnvs.set(env, secretKeys);
+	if (secretKeys.length === 0) {
+		return env;
+	}
+
+	const redacted = () =>
+		Object.fromEntries(
+			Object.entries(env).map(([key, value]) => [
+				key,
+				secretKeys.includes(key) && value !== undefined ? REDACTED : value,
+			]),
+		);
+
+	// Non-enumerable so spreading and Object.keys only see the variables
+	Object.defineProperties(env, {
+		toJSON: { value: redacted },
+		toString: { value: () => JSON.stringify(redacted()) },
+		[Symbol.for("nodejs.util.inspect.custom")]: { value: redacted },
+	});
+	return env;
+}
+
+/**
+ * Replace secret values in a text, e.g. an error message or a log line.
+ * With an env object returned by `createEnv`, the values of its secret
+ * keys are replaced; with any other object, all of its values are. Values
+ * shorter than 4 characters are left as they are.
+ * @param text - The text to scrub
+ * @param env - The env object holding the secret values
+ * @returns The text without the secret values
+ */
+export function redact(text: string, env: object): string {
+	const keys = protectedEnvs.get(env) ?? Object.keys(env);
+	const values = keys
+		.map((key) => (env as Record<string, unknown>)[key])
+		.filter(
+			(value): value is string | number =>
+				typeof value === "string" || typeof value === "number",
+		)
+		.map(String)
+		.filter((value) => value.length >= MIN_REDACTED_LENGTH)
+		// Replace longer values first so a value inside another is not left behind
+		.sort((a, b) => b.length - a.length);
+
+	let result = text;
+	for (const value of values) {
+		result = result.split(value).join(REDACTED);
+	}
+	return result;
+}
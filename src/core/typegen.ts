@@ -0,0 +1,54 @@
+/**
+ * Generation of TypeScript declarations typing `process.env`
+ */
+
+import type { EnvField } from "./schema";
+
+/**
+ * The default path of the declaration file
+ */
+export const TYPES_FILENAME = "env.d.ts";
+
+/**
+ * Get the type of a variable in `process.env`. Values are always strings
+ * there, so only enums get a narrower type.
+ * @param field - The variable
+ */
+function getFieldType(field: EnvField): string {
+	return field.options
+		? field.options.map((option) => JSON.stringify(option)).join(" | ")
+		: "string";
+}
+
+/**
+ * Generate a declaration file augmenting `NodeJS.ProcessEnv` with the given
+ * variables, so `process.env` is typed and autocompleted
+ * @param fields - The variables, e.g. from `getSchemaFields`
+ * @returns The declaration file contents
+ */
+export function generateEnvDeclaration(fields: EnvField[]): string {
+	const properties = fields.flatMap((field) => {
+		const name = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(field.key)
+			? field.key
+			: JSON.stringify(field.key);
+		const property = `\t\t\t${name}${field.optional ? "?" : ""}: ${getFieldType(field)};`;
+		return field.description
+			? [`\t\t\t/** ${field.description.replace(/\*\//g, "*\\/")} */`, property]
+			: [property];
+	});
+
+	return [
+		"// Generated by super-env typegen, do not edit",
+		"",
+		"declare global {",
+		"\tnamespace NodeJS {",
+		"\t\tinterface ProcessEnv {",
+		...properties,
+		"\t\t}",
+		"\t}",
+		"}",
+		"",
+		"export {};",
+		"",
+	].join("\n");
+}
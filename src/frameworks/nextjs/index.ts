@@ -2,60 +2,154 @@
  * Next.js integration for super-env
  */
 
-import { existsSync } from "node:fs";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
 import type { z } from "zod";
-import { MASTER_KEY_FILENAME, decryptEnvFile } from "../../core/encryption";
-import { type EnvOptions, createEnv } from "../../core/env";
+import { expandEnvValues, parseEnvDocument } from "../../core/dotenv";
+import { decryptEnvContent, resolveContentKey } from "../../core/encryption";
+import { type EnvOptions, createEnv, populateProcessEnv } from "../../core/env";
+import { getEnvironmentPaths } from "../../core/environments";
+import {
+	type EnvSchema,
+	getSchemaKeys,
+	getSchemaParts,
+	isZodSchema,
+} from "../../core/schema";
+import { getSecretKeys, protectSecrets } from "../../core/secrets";
+
+/**
+ * The prefix Next.js requires for variables exposed to the browser
+ */
+export const NEXT_PUBLIC_PREFIX = "NEXT_PUBLIC_";
 
 /**
  * Configuration options for Next.js integration
  */
-export interface NextEnvOptions extends EnvOptions {}
+export interface NextEnvOptions extends EnvOptions {
+	/**
+	 * The client variables read in the browser, written out in full so
+	 * Next.js can inline them, e.g.
+	 * `{ NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL }`
+	 */
+	runtimeEnv?: Record<string, string | undefined>;
+
+	/**
+	 * The prefix every client variable must have
+	 * @default "NEXT_PUBLIC_"
+	 */
+	clientPrefix?: string;
+}
 
 /**
  * Options for wrapping Next.js config
  */
 export interface WithSuperEnvOptions {
+	/**
+	 * The environment to decrypt (e.g. "production" decrypts
+	 * `.env.production.enc` with `MASTER_KEY.production.key`)
+	 */
+	environment?: string;
+
 	/**
 	 * Path to the encrypted env file
-	 * @default ".env.enc"
+	 * @default ".env.enc", or `.env.[environment].enc`
 	 */
 	encryptedEnvPath?: string;
 
 	/**
 	 * Path to output the decrypted env file
-	 * @default ".env"
+	 * @default ".env", or `.env.[environment]`
 	 */
 	outputEnvPath?: string;
 
 	/**
 	 * Path to the master key file
-	 * @default "MASTER_KEY.key"
+	 * @default "MASTER_KEY.key", or `MASTER_KEY.[environment].key`
 	 */
 	keyFilePath?: string;
 
+	/**
+	 * The master key, as raw bytes or base64/hex encoded. Takes precedence
+	 * over the SUPER_ENV_MASTER_KEY environment variable and the key file.
+	 */
+	masterKey?: Buffer | string;
+
 	/**
 	 * Whether to skip decryption if the output file already exists
 	 * @default true
 	 */
 	skipIfOutputExists?: boolean;
+
+	/**
+	 * Decrypt into process.env in memory instead of writing the decrypted env
+	 * file, so secrets never end up on disk. Variables that are already set
+	 * are not overridden.
+	 * @default false
+	 */
+	inMemory?: boolean;
+
+	/**
+	 * The app's schema (a Zod schema or the `{ client, server }` object given
+	 * to `createNextEnv`). When set, the variables are validated right after
+	 * decryption and the build fails with a report of the invalid ones.
+	 */
+	schema?: EnvSchema;
+
+	/**
+	 * Add the validated client variables to `nextConfig.env`, so they are
+	 * available to the browser even when they were not in process.env when
+	 * Next.js started. Requires `schema`.
+	 * @default false
+	 */
+	exposeClientEnv?: boolean;
+
+	/**
+	 * The prefix of client variables, used to find them in a schema that is
+	 * not split into `{ client, server }`
+	 * @default "NEXT_PUBLIC_"
+	 */
+	clientPrefix?: string;
 }
 
 /**
- * Default options for withSuperEnv
+ * The parts of the Next.js config that withSuperEnv changes
  */
-const defaultWithSuperEnvOptions: WithSuperEnvOptions = {
-	encryptedEnvPath: ".env.enc",
-	outputEnvPath: ".env",
-	keyFilePath: MASTER_KEY_FILENAME,
-	skipIfOutputExists: true,
-};
+export interface NextConfig {
+	env?: Record<string, string | undefined>;
+	[key: string]: unknown;
+}
 
 /**
- * Create a type-safe environment configuration for a Next.js app
+ * A Next.js config exported as a (possibly async) function of the build phase
+ */
+export type NextConfigFunction<T extends NextConfig = NextConfig> = (
+	phase: string,
+	context: { defaultConfig: NextConfig },
+) => T | Promise<T>;
+
+/**
+ * Get the default options for withSuperEnv
+ * @param environment - The environment to decrypt
+ */
+function getDefaultWithSuperEnvOptions(
+	environment?: string,
+): WithSuperEnvOptions {
+	const paths = getEnvironmentPaths(environment);
+	return {
+		encryptedEnvPath: paths.encryptedEnvFilePath,
+		outputEnvPath: paths.envFilePath,
+		keyFilePath: paths.keyFilePath,
+		skipIfOutputExists: true,
+	};
+}
+
+/**
+ * Create a type-safe environment configuration for a Next.js app. On the
+ * server both schemas are validated; in the browser only the client schema
+ * is, against `runtimeEnv`, and reading a server variable throws.
  * @param schema - Schema containing client and server environment variables
  * @param options - Configuration options
- * @returns A flattened validated environment object with all variables
+ * @returns A validated environment object with all variables
+ * @throws {Error} If a client variable lacks the client prefix or is missing from runtimeEnv
  */
 export function createNextEnv<
 	TServer extends z.ZodType,
@@ -66,73 +160,221 @@ export function createNextEnv<
 		server: TServer;
 	},
 	options: NextEnvOptions = {},
-) {
-	// Validate server-side environment variables
-	const serverEnv = createEnv(schema.server, options);
+): z.infer<TServer> & z.infer<TClient> {
+	const {
+		runtimeEnv,
+		clientPrefix = NEXT_PUBLIC_PREFIX,
+		...envOptions
+	} = options;
+	const clientKeys = getSchemaKeys(schema.client) ?? [];
+	const serverKeys = getSchemaKeys(schema.server) ?? [];
+
+	// Next.js only exposes prefixed variables to the browser
+	const unprefixed = clientKeys.filter((key) => !key.startsWith(clientPrefix));
+	if (unprefixed.length > 0) {
+		throw new Error(
+			`Client environment variables must start with ${clientPrefix}: ${unprefixed.join(", ")}`,
+		);
+	}
+	const unmapped = runtimeEnv
+		? clientKeys.filter((key) => !Object.hasOwn(runtimeEnv, key))
+		: [];
+	if (unmapped.length > 0) {
+		throw new Error(
+			`Client environment variables missing from runtimeEnv: ${unmapped.join(", ")}`,
+		);
+	}
 
-	// Validate client-side environment variables
-	const clientEnv = createEnv(schema.client, {
-		...options,
-		throwOnValidationFailure: false, // Client vars missing on server is ok
+	const isBrowser = "window" in globalThis;
+	const clientEnv = createEnv(
+		schema.client,
+		isBrowser ? { ...envOptions, skipEnvLoad: true, runtimeEnv } : envOptions,
+	);
+	const serverEnv = isBrowser ? {} : createEnv(schema.server, envOptions);
+
+	const env = protectSecrets({ ...serverEnv, ...clientEnv }, [
+		...getSecretKeys(schema),
+		...(envOptions.secretKeys ?? []),
+	]);
+
+	return new Proxy(env, {
+		get(target, property, receiver) {
+			if (
+				isBrowser &&
+				typeof property === "string" &&
+				serverKeys.includes(property) &&
+				!clientKeys.includes(property)
+			) {
+				throw new Error(
+					`❌ Attempted to access the server-side environment variable ${property} on the client`,
+				);
+			}
+			return Reflect.get(target, property, receiver);
+		},
 	});
-
-	// Merge server and client variables into a single object
-	const combinedEnv = {
-		...serverEnv,
-		...clientEnv,
-	};
-
-	return combinedEnv;
 }
 
 /**
- * Wrap Next.js config to automatically decrypt .env.enc file
- * @param nextConfig - The Next.js configuration object
- * @param options - Decryption options
- * @returns The modified Next.js configuration
+ * Decrypt the encrypted env file to the output file or to process.env
+ * @param options - The merged withSuperEnv options
+ * @returns The decrypted variables, or undefined if the file does not exist
+ * @throws {Error} If the master key cannot be resolved or the file is not valid for the key
  */
-export function withSuperEnv(
-	nextConfig = {},
-	options: WithSuperEnvOptions = {},
-) {
-	const mergedOptions = { ...defaultWithSuperEnvOptions, ...options };
-	const { encryptedEnvPath, outputEnvPath, keyFilePath, skipIfOutputExists } =
-		mergedOptions;
-
-	// Ensure we have the required paths
-	const inputPath =
-		encryptedEnvPath || defaultWithSuperEnvOptions.encryptedEnvPath!;
-	const outputPath = outputEnvPath || defaultWithSuperEnvOptions.outputEnvPath!;
-	const keyPath = keyFilePath || defaultWithSuperEnvOptions.keyFilePath!;
+function decryptForNext(
+	options: WithSuperEnvOptions,
+): Record<string, string> | undefined {
+	const inputPath = options.encryptedEnvPath!;
+	const outputPath = options.outputEnvPath!;
 
 	// Check if the encrypted file exists
 	if (!existsSync(inputPath)) {
 		console.warn(`[super-env] Warning: Encrypted file ${inputPath} not found`);
-		return nextConfig;
+		return undefined;
+	}
+
+	// Skip decryption if output exists and skipIfOutputExists is true
+	if (
+		!options.inMemory &&
+		options.skipIfOutputExists &&
+		existsSync(outputPath)
+	) {
+		return expandEnvValues(parseEnvDocument(readFileSync(outputPath, "utf8")));
+	}
+
+	// Resolve the master key from the options, the environment or the key file
+	// (or the data key from the personal identity for files shared with recipients)
+	const encryptedContent = readFileSync(inputPath, "utf8");
+	const key = resolveContentKey(encryptedContent, {
+		key: options.masterKey,
+		keyFilePath: options.keyFilePath,
+	});
+
+	// Decrypt straight into process.env without writing the output file
+	if (options.inMemory) {
+		console.log(`[super-env] Decrypting ${inputPath} in memory`);
+		const values = expandEnvValues(
+			parseEnvDocument(decryptEnvContent(encryptedContent, key)),
+		);
+		populateProcessEnv(values);
+		console.log("[super-env] Successfully decrypted environment variables");
+		return values;
+	}
+
+	console.log(`[super-env] Decrypting ${inputPath} to ${outputPath}`);
+	const content = decryptEnvContent(encryptedContent, key);
+	writeFileSync(outputPath, content);
+	console.log("[super-env] Successfully decrypted environment variables");
+	return expandEnvValues(parseEnvDocument(content));
+}
+
+/**
+ * Decrypt, validate and expose the variables for a resolved Next.js config
+ * @param nextConfig - The Next.js configuration object
+ * @param options - The withSuperEnv options
+ * @returns The modified Next.js configuration
+ */
+function applySuperEnv<T extends NextConfig>(
+	nextConfig: T,
+	options: WithSuperEnvOptions,
+): T & NextConfig {
+	const defaultOptions = getDefaultWithSuperEnvOptions(options.environment);
+	const mergedOptions = {
+		...defaultOptions,
+		...options,
+		// Ensure we have the required paths
+		encryptedEnvPath:
+			options.encryptedEnvPath || defaultOptions.encryptedEnvPath,
+		outputEnvPath: options.outputEnvPath || defaultOptions.outputEnvPath,
+		keyFilePath: options.keyFilePath || defaultOptions.keyFilePath,
+	};
+	const {
+		schema,
+		exposeClientEnv,
+		clientPrefix = NEXT_PUBLIC_PREFIX,
+	} = mergedOptions;
+
+	let values: Record<string, string> | undefined;
+	try {
+		values = decryptForNext(mergedOptions);
+	} catch (error) {
+		throw new Error(
+			`[super-env] Could not decrypt ${mergedOptions.encryptedEnvPath}: ${
+				error instanceof Error ? error.message : error
+			}`,
+		);
 	}
 
-	// Check if the key file exists
-	if (!existsSync(keyPath)) {
-		console.warn(`[super-env] Warning: Key file ${keyPath} not found`);
+	if (!schema) {
 		return nextConfig;
 	}
 
-	// Skip decryption if output exists and skipIfOutputExists is true
-	if (!(skipIfOutputExists && existsSync(outputPath))) {
-		try {
-			// Decrypt the file
-			console.log(`[super-env] Decrypting ${inputPath} to ${outputPath}`);
-			decryptEnvFile(inputPath, outputPath, keyPath);
-			console.log("[super-env] Successfully decrypted environment variables");
-		} catch (error) {
-			console.error(
-				"[super-env] Error decrypting environment variables:",
-				error,
-			);
+	// Next.js loads the decrypted .env file itself, so validate what it will see
+	const runtimeEnv: Record<string, string | undefined> = {
+		...values,
+		...process.env,
+	};
+	try {
+		for (const part of getSchemaParts(schema)) {
+			createEnv(part, {
+				skipEnvLoad: true,
+				runtimeEnv,
+				onValidationError: (error) => {
+					console.error("[super-env] ❌ Invalid environment variables:");
+					for (const line of error.format()) {
+						console.error(`- ${line}`);
+					}
+				},
+			});
 		}
+	} catch (error) {
+		throw new Error(
+			`[super-env] ${error instanceof Error ? error.message : error}`,
+		);
 	}
 
-	return nextConfig;
+	if (!exposeClientEnv) {
+		return nextConfig;
+	}
+
+	const clientKeys = isZodSchema(schema)
+		? (getSchemaKeys(schema) ?? []).filter((key) =>
+				key.startsWith(clientPrefix),
+			)
+		: (getSchemaKeys(schema.client) ?? []);
+	const clientEnv = Object.fromEntries(
+		clientKeys
+			.filter((key) => runtimeEnv[key] !== undefined)
+			.map((key) => [key, runtimeEnv[key]]),
+	);
+	return { ...nextConfig, env: { ...nextConfig.env, ...clientEnv } };
+}
+
+/**
+ * Wrap Next.js config to automatically decrypt .env.enc file, and optionally
+ * validate the variables against the app's schema
+ * @param nextConfig - The Next.js configuration object, or a function returning it
+ * @param options - Decryption and validation options
+ * @returns The modified Next.js configuration, or a function returning it
+ * @throws {Error} If decryption or validation fails, failing the build
+ */
+export function withSuperEnv<T extends NextConfig>(
+	nextConfig?: T,
+	options?: WithSuperEnvOptions,
+): T & NextConfig;
+export function withSuperEnv<T extends NextConfig>(
+	nextConfig: NextConfigFunction<T>,
+	options?: WithSuperEnvOptions,
+): NextConfigFunction<T & NextConfig>;
+export function withSuperEnv<T extends NextConfig>(
+	nextConfig: T | NextConfigFunction<T> = {} as T,
+	options: WithSuperEnvOptions = {},
+): (T & NextConfig) | NextConfigFunction<T & NextConfig> {
+	if (typeof nextConfig === "function") {
+		// Decrypt when Next.js resolves the config for a phase
+		return async (phase, context) =>
+			applySuperEnv(await nextConfig(phase, context), options);
+	}
+	return applySuperEnv(nextConfig, options);
 }
 
 /**
@@ -156,6 +398,11 @@ export const env = createNextEnv({
   client: z.object({
     NEXT_PUBLIC_APP_URL: z.string().url(),
   })
+}, {
+  // Written out in full so Next.js can inline the values in the browser
+  runtimeEnv: {
+    NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL,
+  },
 });
 \`\`\`
 
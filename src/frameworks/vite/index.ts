@@ -0,0 +1,211 @@
+/**
+ * Vite integration for super-env
+ */
+
+import { existsSync } from "node:fs";
+import { readEncryptedEnvValues } from "../../core/encryption";
+import { createEnv, populateProcessEnv } from "../../core/env";
+import {
+	getEnvironmentFromPath,
+	getEnvironmentPaths,
+	isEnvironmentName,
+} from "../../core/environments";
+import { type EnvSchema, getSchemaParts } from "../../core/schema";
+
+/**
+ * The prefix Vite uses by default for variables exposed to the browser
+ */
+export const VITE_PREFIX = "VITE_";
+
+/**
+ * Options for the super-env Vite plugin
+ */
+export interface SuperEnvViteOptions {
+	/**
+	 * Path to the encrypted env file
+	 * @default `.env.[mode].enc` if it exists, or ".env.enc"
+	 */
+	encryptedEnvPath?: string;
+
+	/**
+	 * Path to the master key file
+	 * @default the key file of the encrypted env file's environment
+	 */
+	keyFilePath?: string;
+
+	/**
+	 * The master key, as raw bytes or base64/hex encoded. Takes precedence
+	 * over the SUPER_ENV_MASTER_KEY environment variable and the key file.
+	 */
+	masterKey?: Buffer | string;
+
+	/**
+	 * The app's schema (a Zod schema or a `{ client, server }` object). When
+	 * set, the variables are validated after decryption and `vite build`
+	 * fails on invalid ones.
+	 */
+	schema?: EnvSchema;
+
+	/**
+	 * The prefix of the variables exposed to `import.meta.env`
+	 * @default "VITE_"
+	 */
+	envPrefix?: string;
+}
+
+/**
+ * The parts of a Vite plugin used by super-env
+ */
+export interface SuperEnvVitePlugin {
+	name: string;
+	enforce: "pre";
+	config: (
+		config: unknown,
+		env: { mode: string; command: "build" | "serve" },
+	) => { define: Record<string, string> };
+}
+
+/**
+ * Get the encrypted env file and key file for a Vite mode. Modes that cannot
+ * be environment names, such as "staging.eu", use the default files.
+ * @param mode - The Vite mode (e.g. "development" or "production")
+ * @param options - The plugin options
+ */
+function getModePaths(mode: string, options: SuperEnvViteOptions) {
+	let encryptedEnvPath = options.encryptedEnvPath;
+	if (!encryptedEnvPath) {
+		const modePath = isEnvironmentName(mode)
+			? getEnvironmentPaths(mode).encryptedEnvFilePath
+			: undefined;
+		encryptedEnvPath =
+			modePath && existsSync(modePath)
+				? modePath
+				: getEnvironmentPaths().encryptedEnvFilePath;
+	}
+
+	return {
+		encryptedEnvPath,
+		keyFilePath:
+			options.keyFilePath ||
+			getEnvironmentPaths(getEnvironmentFromPath(encryptedEnvPath)).keyFilePath,
+	};
+}
+
+/**
+ * Create a Vite plugin that decrypts `.env.enc` in memory for the current
+ * mode, validates it against the app's schema and exposes the prefixed
+ * variables to `import.meta.env`
+ * @param options - Plugin options
+ * @returns The Vite plugin
+ */
+export function superEnv(
+	options: SuperEnvViteOptions = {},
+): SuperEnvVitePlugin {
+	const envPrefix = options.envPrefix ?? VITE_PREFIX;
+
+	return {
+		name: "super-env",
+		enforce: "pre",
+		config(_, { mode, command }) {
+			const { encryptedEnvPath, keyFilePath } = getModePaths(mode, options);
+			if (!existsSync(encryptedEnvPath)) {
+				console.warn(
+					`[super-env] Warning: Encrypted file ${encryptedEnvPath} not found`,
+				);
+				return { define: {} };
+			}
+
+			let values: Record<string, string>;
+			try {
+				values = readEncryptedEnvValues(encryptedEnvPath, {
+					key: options.masterKey,
+					keyFilePath,
+				});
+			} catch (error) {
+				throw new Error(
+					`[super-env] Could not decrypt ${encryptedEnvPath}: ${
+						error instanceof Error ? error.message : error
+					}`,
+				);
+			}
+
+			// Make every variable available to the Vite config and SSR code
+			populateProcessEnv(values);
+
+			if (options.schema) {
+				try {
+					for (const part of getSchemaParts(options.schema)) {
+						createEnv(part, {
+							skipEnvLoad: true,
+							onValidationError: (error) => {
+								console.error("[super-env] ❌ Invalid environment variables:");
+								for (const line of error.format()) {
+									console.error(`- ${line}`);
+								}
+							},
+						});
+					}
+				} catch (error) {
+					// Keep the dev server running, but never build with invalid variables
+					if (command === "build") {
+						throw new Error(
+							`[super-env] ${error instanceof Error ? error.message : error}`,
+						);
+					}
+				}
+			}
+
+			// Only prefixed variables reach the browser
+			const define = Object.fromEntries(
+				Object.keys(values)
+					.filter((key) => key.startsWith(envPrefix))
+					.map((key) => [
+						`import.meta.env.${key}`,
+						JSON.stringify(process.env[key]),
+					]),
+			);
+			return { define };
+		},
+	};
+}
+
+/**
+ * Setup instructions for Vite integration
+ */
+export const setupInstructions = `
+To use super-env with Vite:
+
+1. Add the plugin to \`vite.config.ts\`:
+
+\`\`\`typescript
+import { defineConfig } from 'vite';
+import { z } from 'zod';
+import { superEnv } from '@super-os/super-env/vite';
+
+export default defineConfig({
+  plugins: [
+    superEnv({
+      schema: z.object({
+        VITE_API_URL: z.string().url(),
+      }),
+    }),
+  ],
+});
+\`\`\`
+
+2. Encrypt your variables (\`.env.enc\`, or \`.env.[mode].enc\` per mode):
+
+\`\`\`bash
+npx super-env encrypt
+\`\`\`
+
+3. Use the environment variables in your app:
+
+\`\`\`typescript
+console.log(import.meta.env.VITE_API_URL);
+\`\`\`
+
+Only variables starting with VITE_ are exposed to the browser.
+`;
+
+export const internal = { setupInstructions };
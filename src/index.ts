@@ -3,8 +3,23 @@
  */
 
 // Core functionality
+export * from "./core/diff";
 export * from "./core/env";
 export * from "./core/encryption";
+export * from "./core/environments";
+export * from "./core/errors";
+export * from "./core/example";
+export * from "./core/export";
+export * from "./core/git";
+export * from "./core/import";
+export * from "./core/layers";
+export * from "./core/merge";
+export * from "./core/recipients";
+export * from "./core/register";
+export * from "./core/rotation";
+export * from "./core/schema";
+export * from "./core/secrets";
+export * from "./core/typegen";
 
 // Framework-specific integrations are available through submodules
 // Example: import { createNextEnv } from 'super-env/nextjs';
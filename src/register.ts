@@ -0,0 +1,25 @@
+/**
+ * Preload entrypoint for super-env: decrypts `.env.enc` into process.env
+ * before the app starts.
+ *
+ * node --import @super-os/super-env/register server.js
+ * bun --preload @super-os/super-env/register server.ts
+ */
+
+import { EnvValidationError } from "./core/errors";
+import { getRegisterOptions, registerEnv } from "./core/register";
+
+try {
+	await registerEnv(getRegisterOptions());
+} catch (error) {
+	// Fail fast: the app should not start with missing variables
+	console.error(
+		`[super-env] ❌ ${error instanceof Error ? error.message : error}`,
+	);
+	if (error instanceof EnvValidationError) {
+		for (const line of error.format()) {
+			console.error(`- ${line}`);
+		}
+	}
+	process.exit(1);
+}
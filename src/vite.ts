@@ -0,0 +1,7 @@
+/**
+ * Vite integration entrypoint for super-env
+ */
+
+import { superEnv } from "./frameworks/vite";
+
+export { superEnv };